@@ -1,7 +1,12 @@
 // jest.config.js
 module.exports = {
     preset: 'ts-jest',
-    testEnvironment: 'node',
+    testEnvironment: 'jsdom',
+    testEnvironmentOptions: {
+        // resolve packages to their CommonJS builds, as the node environment does; the "browser"
+        // builds are ES modules jest can't load
+        customExportConditions: ['node', 'node-addons'],
+    },
     transform: {
         '^.+\\.tsx?$': 'ts-jest',
     },
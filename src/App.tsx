@@ -1,9 +1,6 @@
 import ProductList from "./components/ProductList";
-import { initializeTelemetry } from "./util/telemetry";
 import './App.css'
 
-initializeTelemetry();
-
 function App() {
     return (
         <div id="root">
@@ -1,36 +1,31 @@
-import { useEffect } from "react";
-import { Product, productListStore } from "../store/productListStore";
+import { shallowEqual } from "../lib";
+import { useSignalValue } from "../lib/react";
+import { useProductListStore, useProductListStoreInstance } from "../store/productListContext";
 import ProductListItem from "./ProductListItem";
 
 function ProductList() {
-    const sortedProducts = productListStore.sortedProducts.value;
-    const sortBy = productListStore.sortBy.value;
-    const sortDirection = productListStore.sortDirection.value;
-    const selectedProduct = productListStore.selectedProduct.value;
-    const selectedProductId = productListStore.selectedProductId.value;
+    const { actions, status } = useProductListStoreInstance();
+    const loading = useSignalValue(status.fetchProducts.pending);
+    const loadError = useSignalValue(status.fetchProducts.error);
+    // ids only change when products are added, removed or reordered
+    const sortedProductIds = useProductListStore((state) => state.sortedProductIds, shallowEqual);
+    const sortBy = useProductListStore((state) => state.sortBy);
+    const sortDirection = useProductListStore((state) => state.sortDirection);
+    const selectedProduct = useProductListStore((state) => state.selectedProduct);
 
     const handleSortByChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        productListStore.actions.setSortBy(e.target.value as "name" | "price" | "qty");
+        actions.setSortBy(e.target.value as "name" | "price" | "qty");
     };
 
     const handleSortDirectionChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        productListStore.actions.setSortDirection(e.target.value as "asc" | "desc");
+        actions.setSortDirection(e.target.value as "asc" | "desc");
     };
 
-    // Simulate fetching products
+    // failures show up through status.fetchProducts.error
     const loadSampleData = () => {
-        const sampleProducts: Product[] = [
-            { id: "1", name: "Laptop", price: 999.99, qty: 5 },
-            { id: "2", name: "Mouse", price: 29.99, qty: 50 },
-            { id: "3", name: "Keyboard", price: 59.99, qty: 20 },
-        ];
-        productListStore.actions.setProducts(sampleProducts);
+        actions.fetchProducts().catch(() => undefined);
     };
 
-    useEffect(() => {
-        console.log("STATE SNAPSHOT", productListStore.getStateSnapshot());
-    }, [sortedProducts, sortBy, sortDirection, selectedProduct, selectedProductId]);
-
     return (
         <div>
             <h2>Product List</h2>
@@ -53,18 +48,21 @@ function ProductList() {
                     </select>
                 </label>
                 <button onClick={loadSampleData} style={{ marginLeft: "16px" }}>
-                    Load Sample Data
+                    {loading ? "Loading..." : "Load Sample Data"}
                 </button>
             </div>
 
+            {loadError !== undefined && (
+                <p style={{ color: "red" }}>
+                    Failed to load products:{" "}
+                    {loadError instanceof Error ? loadError.message : String(loadError)}
+                </p>
+            )}
+
             {/* Product List */}
             <ul style={{ listStyle: "none", padding: 0 }}>
-                {sortedProducts.map((product) => (
-                    <ProductListItem
-                        key={product.id}
-                        product={product}
-                        isSelected={selectedProductId === product.id}
-                    />
+                {sortedProductIds.map((id) => (
+                    <ProductListItem key={id} id={id} />
                 ))}
             </ul>
 
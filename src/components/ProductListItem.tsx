@@ -1,15 +1,31 @@
-import { useCallback } from "react";
-import { Product, productListStore } from "../store/productListStore";
+import { memo, MouseEvent, useCallback } from "react";
+import { useSignalValue } from "../lib/react";
+import { useProductListStore, useProductListStoreInstance } from "../store/productListContext";
 
 interface ProductListItemProps {
-    product: Product;
-    isSelected: boolean;
+    id: string;
 }
 
-function ProductListItem({ product, isSelected }: ProductListItemProps) {
+// only re-renders when this product (or its selection, or its save status) changes
+const ProductListItem = memo(function ProductListItem({ id }: ProductListItemProps) {
+    const { actions, transactions } = useProductListStoreInstance();
+    const product = useProductListStore((state) => state.productById(id));
+    const isSelected = useProductListStore((state) => state.isProductSelected(id));
+    const saveStatus = useSignalValue(transactions.statusOf(id));
     const handleClick = useCallback(() => {
-        productListStore.actions.setSelectedProductId(product.id);
-    }, [product.id]);
+        actions.setSelectedProductId(id);
+    }, [actions, id]);
+
+    if (!product) {
+        return null;
+    }
+
+    const changeQty = (event: MouseEvent, delta: number) => {
+        // don't select the product as well
+        event.stopPropagation();
+        // a refused save is rolled back and shown through saveStatus
+        actions.saveProduct({ id, changes: { qty: product.qty + delta } }).catch(() => undefined);
+    };
 
     return (
         <li
@@ -21,9 +37,13 @@ function ProductListItem({ product, isSelected }: ProductListItemProps) {
                 margin: "4px 0",
             }}
         >
-            ({product.id}) {product.name} - ${product.price.toFixed(2)} (Qty: {product.qty})
+            ({product.id}) {product.name} - ${product.price.toFixed(2)} (Qty: {product.qty}){" "}
+            <button onClick={(event) => changeQty(event, -1)}>-</button>
+            <button onClick={(event) => changeQty(event, 1)}>+</button>
+            {saveStatus === "pending" && <span style={{ color: "#888" }}> saving…</span>}
+            {saveStatus === "failed" && <span style={{ color: "#c00" }}> couldn't save</span>}
         </li>
     );
-}
+});
 
 export default ProductListItem;
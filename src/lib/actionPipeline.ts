@@ -0,0 +1,118 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    ActionCall,
+    ActionMiddleware,
+    ActionOutcome,
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    StoreConfig,
+} from "./types";
+
+/**
+ * Runs a single action call through the given middleware
+ *
+ * The pipeline works in three phases:
+ * 1. `before` hooks - may rewrite the arguments or veto the call by returning `false`, in which
+ *    case the caller gets `call.result`
+ * 2. `around` hooks - wrap the invocation, outermost first
+ * 3. `after` hooks - receive the result or error together with before/after snapshots
+ *
+ * @param middleware The middleware to run, in registration order
+ * @param name The name of the action being called
+ * @param args The arguments passed by the caller
+ * @param invoke Calls the underlying action with the (possibly rewritten) arguments
+ * @param getSnapshot Returns a plain snapshot of the current state
+ * @param store The store the action belongs to
+ * @param parent The call of the action making this call, if any
+ * @returns The value returned by the action (or by the middleware that replaced it)
+ */
+export function runActionPipeline<TState>(
+    middleware: ActionMiddleware<TState>[],
+    name: string,
+    args: any[],
+    invoke: (args: any[], call: ActionCall<TState>) => unknown,
+    getSnapshot: () => TState,
+    store: ActionCall<TState>["store"],
+    parent?: ActionCall<TState>
+): unknown {
+    const call: ActionCall<TState> = { name, args, stateBefore: getSnapshot(), store, parent };
+
+    let cancelled = false;
+    for (const mw of middleware) {
+        if (mw.before && mw.before(call) === false) {
+            cancelled = true;
+            break;
+        }
+    }
+
+    const arounds = middleware.filter((mw) => mw.around);
+    const dispatch = (index: number, nextArgs: any[]): unknown => {
+        call.args = nextArgs;
+        const mw = arounds[index];
+        if (!mw) {
+            return invoke(nextArgs, call);
+        }
+        return mw.around!(call, (replacementArgs = call.args) =>
+            dispatch(index + 1, replacementArgs)
+        );
+    };
+
+    let result: unknown;
+    let error: unknown;
+    let failed = false;
+    if (cancelled) {
+        result = call.result;
+    } else {
+        try {
+            result = dispatch(0, call.args);
+        } catch (err: unknown) {
+            error = err;
+            failed = true;
+        }
+    }
+
+    const outcome: ActionOutcome<TState> = {
+        ...call,
+        stateAfter: getSnapshot(),
+        result,
+        error,
+        cancelled,
+    };
+    for (const mw of middleware) {
+        if (mw.after) {
+            mw.after(outcome);
+        }
+    }
+
+    if (failed) {
+        throw error;
+    }
+    return result;
+}
+
+/**
+ * Returns a copy of the store config with the given action middleware appended
+ * Plugins use this so they don't clobber middleware registered by other plugins
+ *
+ * @example
+ * const withLogging = addActionMiddleware(config, {
+ *   after: ({ name, stateAfter }) => console.log(name, stateAfter),
+ * });
+ */
+export function addActionMiddleware<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    ...middleware: ActionMiddleware<TState>[]
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    return {
+        ...config,
+        actionMiddleware: [...(config.actionMiddleware ?? []), ...middleware],
+    };
+}
@@ -0,0 +1,153 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "./store";
+import { asyncAction } from "./asyncAction";
+
+// a promise that the test resolves or rejects by hand
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+// rejects with the abort reason once the signal aborts
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        promise.then(resolve, reject);
+    });
+
+describe("async actions", () => {
+    let store: any;
+    let requests: { query: string; response: ReturnType<typeof deferred<string[]>> }[];
+    let signals: AbortSignal[];
+
+    const search = (policy: "takeLatest" | "takeFirst" | "queue") =>
+        asyncAction(
+            async (state: any, { signal }, query: string) => {
+                const response = deferred<string[]>();
+                requests.push({ query, response });
+                signals.push(signal);
+                state.results.value = await abortable(response.promise, signal);
+                return state.results.value;
+            },
+            { policy }
+        );
+
+    beforeEach(() => {
+        requests = [];
+        signals = [];
+        store = createStore({
+            initialState: { results: [] as string[], count: 0 },
+            actions: {
+                searchLatest: search("takeLatest"),
+                searchFirst: search("takeFirst"),
+                searchQueued: search("queue"),
+                load: async (state: any, fail: boolean) => {
+                    await Promise.resolve();
+                    if (fail) {
+                        throw new Error("offline");
+                    }
+                    state.count.value++;
+                },
+                increment: (state: any) => {
+                    state.count.value++;
+                },
+            },
+        });
+    });
+
+    describe("when an action returns a promise", () => {
+        it("should return the promise and track it as pending", async () => {
+            const loading = store.actions.load(false);
+            expect(store.status.load.pending.value).toBe(true);
+            await loading;
+            expect(store.status.load.pending.value).toBe(false);
+            expect(store.count.value).toBe(1);
+        });
+
+        it("should record when it last succeeded", async () => {
+            jest.spyOn(Date, "now").mockReturnValue(1234);
+            await store.actions.load(false);
+            expect(store.status.load.lastSucceededAt.value).toBe(1234);
+            jest.restoreAllMocks();
+        });
+
+        it("should expose the error it rejected with until the next call", async () => {
+            await expect(store.actions.load(true)).rejects.toThrow("offline");
+            expect(store.status.load.error.value).toEqual(new Error("offline"));
+            expect(store.status.load.lastSucceededAt.value).toBeNull();
+
+            const retry = store.actions.load(false);
+            expect(store.status.load.error.value).toBeUndefined();
+            await retry;
+        });
+    });
+
+    it("should leave the status of synchronous actions idle", () => {
+        store.actions.increment();
+        expect(store.status.increment.pending.value).toBe(false);
+        expect(store.status.increment.lastSucceededAt.value).toBeNull();
+    });
+
+    describe("with the takeLatest policy", () => {
+        it("should abort the call in flight and keep only the latest result", async () => {
+            const first = store.actions.searchLatest("lap");
+            const second = store.actions.searchLatest("laptop");
+            expect(signals[0].aborted).toBe(true);
+            expect(signals[1].aborted).toBe(false);
+
+            requests[1].response.resolve(["Laptop"]);
+            await expect(first).rejects.toBeDefined();
+            await expect(second).resolves.toEqual(["Laptop"]);
+            expect(store.results.value).toEqual(["Laptop"]);
+        });
+
+        it("should not report the aborted call as an error", async () => {
+            const first = store.actions.searchLatest("lap");
+            const second = store.actions.searchLatest("laptop");
+            await expect(first).rejects.toBeDefined();
+            expect(store.status.searchLatest.error.value).toBeUndefined();
+            expect(store.status.searchLatest.pending.value).toBe(true);
+
+            requests[1].response.resolve([]);
+            await second;
+            expect(store.status.searchLatest.pending.value).toBe(false);
+        });
+    });
+
+    describe("with the takeFirst policy", () => {
+        it("should hand later calls the promise in flight", async () => {
+            const first = store.actions.searchFirst("lap");
+            const second = store.actions.searchFirst("laptop");
+            expect(second).toBe(first);
+            expect(requests.map(({ query }) => query)).toEqual(["lap"]);
+
+            requests[0].response.resolve(["Laptop"]);
+            await first;
+            store.actions.searchFirst("mouse");
+            expect(requests.map(({ query }) => query)).toEqual(["lap", "mouse"]);
+        });
+    });
+
+    describe("with the queue policy", () => {
+        it("should start each call once the previous one settled", async () => {
+            const first = store.actions.searchQueued("lap");
+            const second = store.actions.searchQueued("mouse");
+            await Promise.resolve();
+            expect(requests.map(({ query }) => query)).toEqual(["lap"]);
+
+            requests[0].response.reject(new Error("timeout"));
+            await expect(first).rejects.toThrow("timeout");
+            expect(requests.map(({ query }) => query)).toEqual(["lap", "mouse"]);
+            expect(store.status.searchQueued.pending.value).toBe(true);
+
+            requests[1].response.resolve(["Mouse"]);
+            await expect(second).resolves.toEqual(["Mouse"]);
+            expect(store.status.searchQueued.pending.value).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,208 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { signal } from "@preact/signals-react";
+import { ActionContext, ActionStatus, BeaconState } from "./types";
+import { isPromise } from "./isPromise";
+
+/**
+ * How overlapping calls of the same async action are handled
+ * - `takeLatest`: a new call aborts the one in flight
+ * - `takeFirst`: calls made while one is in flight are ignored and get the in-flight promise
+ * - `queue`: calls run one after another, each starting once the previous one settled
+ */
+export type ConcurrencyPolicy = "takeLatest" | "takeFirst" | "queue";
+
+/**
+ * Handed to async actions alongside the state signals
+ */
+export interface AsyncActionContext {
+    /**
+     * Aborted when the call is superseded (see `takeLatest`). Pass it on to `fetch` and friends,
+     * or check `signal.aborted` before writing state.
+     */
+    signal: AbortSignal;
+}
+
+export interface AsyncActionOptions {
+    /**
+     * How overlapping calls are handled
+     * @default "takeLatest"
+     */
+    policy?: ConcurrencyPolicy;
+}
+
+type AsyncRun = (
+    this: ActionContext<any, any, any>,
+    state: any,
+    context: AsyncActionContext,
+    ...args: any[]
+) => Promise<unknown>;
+
+const ASYNC_ACTION = Symbol("beacon.asyncAction");
+
+/**
+ * Declares an async action: it receives an `AbortSignal` and its overlapping calls follow a
+ * concurrency policy. The store tracks its status under `store.status.<action>`.
+ *
+ * (Any action returning a promise gets status signals; `asyncAction` adds the abort signal and
+ * the policy.)
+ *
+ * @example
+ * actions: {
+ *   fetchProducts: asyncAction(async (state, { signal }, category: string) => {
+ *     const response = await fetch(`/products?category=${category}`, { signal });
+ *     state.products.value = await response.json();
+ *   }, { policy: "takeLatest" }),
+ * }
+ *
+ * await store.actions.fetchProducts("books");
+ * store.status.fetchProducts.lastSucceededAt.value;
+ */
+export function asyncAction<TState, TArgs extends any[], TResult>(
+    run: (
+        this: ActionContext<TState, any, any>,
+        state: BeaconState<TState>,
+        context: AsyncActionContext,
+        ...args: TArgs
+    ) => Promise<TResult>,
+    options: AsyncActionOptions = {}
+): (
+    this: ActionContext<TState, any, any>,
+    state: BeaconState<TState>,
+    ...args: TArgs
+) => Promise<TResult> {
+    // called directly (outside of a store), the action just never gets aborted
+    const action = function (
+        this: ActionContext<TState, any, any>,
+        state: BeaconState<TState>,
+        ...args: TArgs
+    ) {
+        return run.call(this, state, { signal: new AbortController().signal }, ...args);
+    };
+    return Object.assign(action, {
+        [ASYNC_ACTION]: { run: run as AsyncRun, policy: options.policy ?? "takeLatest" },
+    });
+}
+
+/**
+ * Creates the status signals of an action, along with the function tracking a call's promise
+ *
+ * @returns The read-only status, and `track(promise)` which returns a function that marks the
+ *   call as superseded (its outcome then no longer updates the status)
+ */
+export function createActionStatus(): {
+    status: ActionStatus;
+    track: (promise: Promise<unknown>) => () => void;
+} {
+    const pending = signal(false);
+    const error = signal<unknown>(undefined);
+    const lastSucceededAt = signal<number | null>(null);
+    let active = 0;
+
+    const track = (promise: Promise<unknown>) => {
+        let counted = true;
+        const settle = () => {
+            if (counted) {
+                counted = false;
+                active--;
+                pending.value = active > 0;
+            }
+        };
+        active++;
+        pending.value = true;
+        error.value = undefined;
+        promise.then(
+            () => {
+                if (counted) {
+                    lastSucceededAt.value = Date.now();
+                }
+                settle();
+            },
+            (reason: unknown) => {
+                if (counted) {
+                    error.value = reason;
+                }
+                settle();
+            }
+        );
+        return settle;
+    };
+
+    return { status: { pending, error, lastSucceededAt }, track };
+}
+
+/**
+ * Wraps an action so every promise it returns is tracked in its status. Actions declared with
+ * `asyncAction` additionally get their abort signal and concurrency policy here.
+ *
+ * @param action The action implementation from `config.actions`
+ * @param state The store's state signals
+ * @param context Passed to the action as `this`, unless a call brings its own
+ * @param track Tracks a call's promise (see `createActionStatus`)
+ * @returns Calls the action with the given arguments (and `this`)
+ */
+export function createActionInvoker(
+    action: (this: ActionContext<any, any, any>, state: any, ...args: any[]) => unknown,
+    state: unknown,
+    context: ActionContext<any, any, any>,
+    track: (promise: Promise<unknown>) => () => void
+): (args: any[], callContext?: ActionContext<any, any, any>) => unknown {
+    const asyncOptions = (action as any)[ASYNC_ACTION] as
+        | { run: AsyncRun; policy: ConcurrencyPolicy }
+        | undefined;
+
+    if (!asyncOptions) {
+        return (args, callContext = context) => {
+            const result = action.call(callContext, state, ...args);
+            if (isPromise(result)) {
+                track(Promise.resolve(result));
+            }
+            return result;
+        };
+    }
+
+    const { run, policy } = asyncOptions;
+    let current: { promise: Promise<unknown>; abort: () => void } | undefined;
+    let queueTail: Promise<unknown> = Promise.resolve();
+
+    return (args, callContext = context) => {
+        if (policy === "takeFirst" && current) {
+            return current.promise;
+        }
+        if (policy === "takeLatest" && current) {
+            current.abort();
+        }
+
+        const controller = new AbortController();
+        const start = () => run.call(callContext, state, { signal: controller.signal }, ...args);
+        const promise = policy === "queue" ? queueTail.then(start, start) : start();
+        if (policy === "queue") {
+            queueTail = promise.then(
+                () => undefined,
+                () => undefined
+            );
+        }
+
+        const supersede = track(promise);
+        const call = {
+            promise,
+            abort: () => {
+                supersede();
+                controller.abort();
+            },
+        };
+        current = call;
+        promise.then(
+            () => {
+                if (current === call) {
+                    current = undefined;
+                }
+            },
+            () => {
+                if (current === call) {
+                    current = undefined;
+                }
+            }
+        );
+        return promise;
+    };
+}
@@ -0,0 +1,181 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { effect } from "@preact/signals-react";
+import { createStore } from "./store";
+import { createEntityAdapter } from "./entityAdapter";
+
+interface Todo {
+    id: string;
+    title: string;
+    done: boolean;
+}
+
+describe("createEntityAdapter", () => {
+    let store: any;
+    const todosAdapter = createEntityAdapter<Todo, "todos">({ key: "todos" });
+    const first = { id: "1", title: "Write tests", done: false };
+    const second = { id: "2", title: "Ship it", done: false };
+
+    beforeEach(() => {
+        store = createStore({
+            initialState: { todos: todosAdapter.getInitialState([first]) },
+            derived: {
+                allTodos: todosAdapter.derived.selectAll,
+                todoCount: todosAdapter.derived.selectTotal,
+                todoById: todosAdapter.derived.selectById,
+            },
+            actions: todosAdapter.actions,
+        });
+    });
+
+    it("should build the initial state from entities", () => {
+        expect(store.todos.value).toEqual({ ids: ["1"], entities: { "1": first } });
+    });
+
+    describe("when adding entities", () => {
+        beforeEach(() => {
+            store.actions.addOne(second);
+            store.actions.addMany([
+                { ...first, title: "Duplicate" },
+                { id: "3", title: "Rest", done: true },
+            ]);
+        });
+
+        it("should append new ids and skip existing ones", () => {
+            expect(store.todos.value.ids).toEqual(["1", "2", "3"]);
+            expect(store.todoById.value("1")).toBe(first);
+            expect(store.todoCount.value).toEqual(3);
+        });
+    });
+
+    describe("when upserting an entity", () => {
+        it("should merge into an existing entity", () => {
+            store.actions.upsertOne({ id: "1", title: "Renamed" });
+
+            expect(store.todoById.value("1")).toEqual({ id: "1", title: "Renamed", done: false });
+        });
+
+        it("should add a missing entity", () => {
+            store.actions.upsertOne(second);
+
+            expect(store.allTodos.value).toEqual([first, second]);
+        });
+    });
+
+    describe("when updating an entity", () => {
+        beforeEach(() => {
+            store.actions.addOne(second);
+        });
+
+        it("should keep the other entities unchanged", () => {
+            store.actions.updateOne({ id: "2", changes: { done: true } });
+
+            expect(store.todoById.value("2")).toEqual({ ...second, done: true });
+            expect(store.todoById.value("1")).toBe(first);
+        });
+
+        it("should only notify readers of the updated entity", () => {
+            const readFirst = jest.fn(),
+                readSecond = jest.fn(),
+                readCount = jest.fn();
+            const disposers = [
+                effect(() => readFirst(store.todoById.value("1"))),
+                effect(() => readSecond(store.todoById.value("2"))),
+                effect(() => readCount(store.todoCount.value)),
+            ];
+
+            store.actions.updateOne({ id: "2", changes: { done: true } });
+            disposers.forEach((dispose) => dispose());
+
+            expect(readFirst).toHaveBeenCalledTimes(1);
+            expect(readSecond).toHaveBeenCalledTimes(2);
+            expect(readCount).toHaveBeenCalledTimes(1);
+        });
+
+        it("should ignore unknown ids", () => {
+            const before = store.todos.value;
+
+            store.actions.updateOne({ id: "42", changes: { done: true } });
+
+            expect(store.todos.value).toBe(before);
+        });
+    });
+
+    describe("when removing an entity", () => {
+        beforeEach(() => {
+            store.actions.addOne(second);
+            store.actions.removeOne("1");
+        });
+
+        it("should drop its id and entity", () => {
+            expect(store.todos.value).toEqual({ ids: ["2"], entities: { "2": second } });
+            expect(store.todoById.value("1")).toBeUndefined();
+        });
+
+        it("should drop its signal, which still picks the entity up if it comes back", () => {
+            const removed = todosAdapter.selectEntity(store, "2");
+            store.actions.removeOne("2");
+
+            expect(removed.value).toBeUndefined();
+            expect(todosAdapter.selectEntity(store, "2")).not.toBe(removed);
+            store.actions.addOne(second);
+            expect(removed.value).toBe(second);
+        });
+    });
+
+    it("should treat numeric and string ids alike", () => {
+        store.actions.addOne({ id: 2, title: "Numbered", done: false });
+        store.actions.removeOne(1);
+        store.actions.updateOne({ id: "2", changes: { done: true } });
+
+        expect(store.todos.value.ids).toEqual([2]);
+        expect(store.todoById.value(2)).toEqual({ id: 2, title: "Numbered", done: true });
+    });
+
+    it("should pick up collection writes made without its actions", () => {
+        const todo = todosAdapter.selectEntity(store, "1");
+        store.setState({ todos: todosAdapter.getInitialState([second]) });
+
+        expect(todo.value).toBeUndefined();
+        expect(store.allTodos.value).toEqual([second]);
+        expect(store.todoById.value("2")).toBe(second);
+    });
+
+    describe("when replacing all entities", () => {
+        beforeEach(() => {
+            store.actions.setAll([second]);
+        });
+
+        it("should only keep the new entities", () => {
+            expect(store.allTodos.value).toEqual([second]);
+        });
+    });
+
+    it("should let actions of a strict store read their own updates through derived values", () => {
+        const strictStore: any = createStore(
+            {
+                initialState: { todos: todosAdapter.getInitialState([first]) },
+                derived: { todoById: todosAdapter.derived.selectById },
+                actions: {
+                    rename(this: any, state: any, title: string) {
+                        todosAdapter.actions.updateOne(state, { id: "1", changes: { title } });
+                        return this.derived.todoById.value("1").title;
+                    },
+                },
+            },
+            { strict: true }
+        );
+        expect(strictStore.todoById.value("1")).toBe(first);
+
+        expect(strictStore.actions.rename("Renamed")).toBe("Renamed");
+        expect(strictStore.todoById.value("1").title).toBe("Renamed");
+    });
+
+    it("should keep entity signals separate per store", () => {
+        const other: any = createStore({
+            initialState: { todos: todosAdapter.getInitialState([second]) },
+        });
+
+        expect(todosAdapter.selectEntity(store, "1").value).toBe(first);
+        expect(todosAdapter.selectEntity(other, "1").value).toBeUndefined();
+    });
+});
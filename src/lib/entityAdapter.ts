@@ -0,0 +1,332 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { batch, computed, effect, ReadonlySignal, signal, Signal } from "@preact/signals-react";
+import { BeaconState } from "./types";
+import { originalSignal } from "./writableSignal";
+
+export type EntityId = string | number;
+
+/**
+ * A normalized collection: the entity ids in order, and the entities keyed by id
+ * Numeric ids are kept as numbers in `ids`; `entities` is keyed by the id as a string.
+ *
+ * @template T The entity type
+ */
+export interface EntityState<T> {
+    ids: EntityId[];
+    entities: Record<string, T>;
+}
+
+/**
+ * A partial update of a single entity, as passed to `updateOne`
+ */
+export interface EntityUpdate<T> {
+    id: EntityId;
+    changes: Partial<T>;
+}
+
+export interface EntityAdapterOptions<T, TKey extends string> {
+    /**
+     * The state key holding the collection
+     */
+    key: TKey;
+    /**
+     * Returns the id of an entity
+     * @default (entity) => entity.id
+     */
+    selectId?: (entity: T) => EntityId;
+}
+
+/**
+ * State signals of any store holding the collection under `TKey`
+ */
+type CollectionState<T, TKey extends string> = BeaconState<Record<TKey, EntityState<T>>>;
+
+/**
+ * Action implementations generated by `createEntityAdapter`, to be used in `config.actions`
+ */
+export type EntityActions<T, TKey extends string> = {
+    /**
+     * Adds an entity, unless one with the same id already exists
+     */
+    addOne: (state: CollectionState<T, TKey>, entity: T) => void;
+    /**
+     * Adds several entities, skipping ids that already exist
+     */
+    addMany: (state: CollectionState<T, TKey>, entities: T[]) => void;
+    /**
+     * Adds an entity, or shallowly merges it into the existing one with the same id
+     */
+    upsertOne: (state: CollectionState<T, TKey>, entity: T) => void;
+    /**
+     * Shallowly merges changes into an existing entity. Unknown ids are ignored.
+     */
+    updateOne: (state: CollectionState<T, TKey>, update: EntityUpdate<T>) => void;
+    /**
+     * Removes the entity with the given id
+     */
+    removeOne: (state: CollectionState<T, TKey>, id: EntityId) => void;
+    /**
+     * Replaces the whole collection
+     */
+    setAll: (state: CollectionState<T, TKey>, entities: T[]) => void;
+};
+
+/**
+ * Derived value functions generated by `createEntityAdapter`, to be used in `config.derived`
+ */
+export type EntityDerived<T, TKey extends string> = {
+    /**
+     * All entities, in id order
+     */
+    selectAll: (state: CollectionState<T, TKey>) => T[];
+    /**
+     * The number of entities
+     */
+    selectTotal: (state: CollectionState<T, TKey>) => number;
+    /**
+     * Returns a lookup function. Calling it reads (and tracks) only the requested entity.
+     */
+    selectById: (state: CollectionState<T, TKey>) => (id: EntityId) => T | undefined;
+};
+
+export interface EntityAdapter<T, TKey extends string> {
+    /**
+     * Builds the initial collection state, optionally pre-filled with entities
+     */
+    getInitialState: (entities?: T[]) => EntityState<T>;
+    actions: EntityActions<T, TKey>;
+    derived: EntityDerived<T, TKey>;
+    /**
+     * Returns the signal of a single entity (undefined while it isn't in the collection)
+     * The signal only notifies when that entity changes. Signals are cached per store and id,
+     * and dropped from the cache when the entity is removed.
+     *
+     * @param state The store, or the state signals handed to actions and derived functions
+     * @param id The entity id
+     */
+    selectEntity: (state: CollectionState<T, TKey>, id: EntityId) => ReadonlySignal<T | undefined>;
+}
+
+/**
+ * The signals a store reads a collection through: the ids, and one signal per entity
+ */
+interface CollectionSignals<T> {
+    ids: Signal<EntityId[]>;
+    entities: Map<string, Signal<T | undefined>>;
+    /**
+     * The signals handed out by `selectEntity`, by entity key
+     */
+    selected: Map<string, ReadonlySignal<T | undefined>>;
+    /**
+     * The collection value the signals were last brought up to date with
+     */
+    synced: EntityState<T>;
+}
+
+const toKey = (id: EntityId) => String(id);
+
+const has = (entities: Record<string, unknown>, key: string) =>
+    Object.prototype.hasOwnProperty.call(entities, key);
+
+const sameIds = (a: EntityId[], b: EntityId[]) =>
+    a === b || (a.length === b.length && a.every((id, index) => id === b[index]));
+
+/**
+ * Brings the collection's signals up to date with its plain value
+ * Signals of removed entities are cleared and dropped, along with what `selectEntity` handed out.
+ */
+function syncSignals<T>(signals: CollectionSignals<T>, next: EntityState<T>) {
+    const previous = signals.synced;
+    if (previous === next) {
+        return;
+    }
+    signals.synced = next;
+    batch(() => {
+        if (previous.entities !== next.entities) {
+            for (const key in next.entities) {
+                const entity = signals.entities.get(key);
+                if (entity) {
+                    entity.value = next.entities[key];
+                } else {
+                    signals.entities.set(key, signal<T | undefined>(next.entities[key]));
+                }
+            }
+            for (const [key, entity] of signals.entities) {
+                if (!has(next.entities, key)) {
+                    entity.value = undefined;
+                    signals.entities.delete(key);
+                    signals.selected.delete(key);
+                }
+            }
+        }
+        if (!sameIds(signals.ids.peek(), next.ids)) {
+            signals.ids.value = next.ids;
+        }
+    });
+}
+
+/**
+ * Creates the state shape, actions and derived values for a normalized entity collection
+ *
+ * The collection is stored as plain data (`{ ids, entities }`) in a single state signal, so
+ * snapshots, persistence and devtools keep working unchanged. Alongside it, each store gets a
+ * signal holding the ids and one signal per entity, which the derived values and `selectEntity`
+ * read: updating one entity only notifies what reads that entity (plus whatever reads the whole
+ * collection). The adapter's actions update these signals right away; writes to the collection
+ * made any other way (`setState`, hydration, rollbacks) are picked up once the current batch ends.
+ *
+ * @example
+ * const productsAdapter = createEntityAdapter<Product, "products">({ key: "products" });
+ *
+ * const store = createStore({
+ *   initialState: { products: productsAdapter.getInitialState() },
+ *   derived: {
+ *     allProducts: productsAdapter.derived.selectAll,
+ *     productById: productsAdapter.derived.selectById,
+ *   },
+ *   actions: {
+ *     setProducts: productsAdapter.actions.setAll,
+ *     updateProduct: productsAdapter.actions.updateOne,
+ *   },
+ * });
+ *
+ * store.actions.updateProduct({ id: "2", changes: { qty: 49 } });
+ * store.productById.value("2"); // only re-runs effects reading product "2"
+ */
+export function createEntityAdapter<T, TKey extends string>(
+    options: EntityAdapterOptions<T, TKey>
+): EntityAdapter<T, TKey> {
+    const { key, selectId = (entity: T) => (entity as any).id as EntityId } = options;
+
+    // keyed by the collection signal (not the stand-in strict stores hand to actions), so each
+    // store gets its own signals
+    const collections = new WeakMap<Signal<EntityState<T>>, CollectionSignals<T>>();
+
+    const signalsOf = (state: CollectionState<T, TKey>) => {
+        const collection = originalSignal(state[key]);
+        let signals = collections.get(collection);
+        if (!signals) {
+            const initial = collection.peek();
+            const created: CollectionSignals<T> = {
+                ids: signal(initial.ids),
+                entities: new Map(),
+                selected: new Map(),
+                synced: initial,
+            };
+            for (const entityKey in initial.entities) {
+                created.entities.set(entityKey, signal<T | undefined>(initial.entities[entityKey]));
+            }
+            collections.set(collection, created);
+            // catch up with writes that didn't go through the adapter's actions
+            effect(() => syncSignals(created, collection.value));
+            signals = created;
+        }
+        return signals;
+    };
+
+    const selectEntity = (state: CollectionState<T, TKey>, id: EntityId) => {
+        const signals = signalsOf(state);
+        const entityKey = toKey(id);
+        let selected = signals.selected.get(entityKey);
+        if (!selected) {
+            selected = computed(() => {
+                const entity = signals.entities.get(entityKey);
+                // while the entity is missing, the ids tell when it's added
+                return entity ? entity.value : signals.ids.value && undefined;
+            });
+            // ids that aren't in the collection aren't cached, so looking them up leaks nothing
+            if (signals.entities.has(entityKey)) {
+                signals.selected.set(entityKey, selected);
+            }
+        }
+        return selected;
+    };
+
+    // writes the collection, and its signals if the store has any yet
+    const write = (state: CollectionState<T, TKey>, next: EntityState<T>) => {
+        state[key].value = next;
+        const signals = collections.get(originalSignal(state[key]));
+        if (signals) {
+            syncSignals(signals, next);
+        }
+    };
+
+    const getInitialState = (entities: T[] = []): EntityState<T> => {
+        const initial: EntityState<T> = { ids: [], entities: {} };
+        for (const entity of entities) {
+            const id = selectId(entity);
+            if (!has(initial.entities, toKey(id))) {
+                initial.ids.push(id);
+            }
+            initial.entities[toKey(id)] = entity;
+        }
+        return initial;
+    };
+
+    const addMany = (state: CollectionState<T, TKey>, entities: T[]) => {
+        const { ids, entities: current } = state[key].value;
+        const added = entities.filter((entity) => !has(current, toKey(selectId(entity))));
+        if (!added.length) {
+            return;
+        }
+        const next = getInitialState(added);
+        write(state, {
+            ids: [...ids, ...next.ids],
+            entities: { ...current, ...next.entities },
+        });
+    };
+
+    const updateOne = (state: CollectionState<T, TKey>, { id, changes }: EntityUpdate<T>) => {
+        const { ids, entities } = state[key].value;
+        const entityKey = toKey(id);
+        if (!has(entities, entityKey)) {
+            return;
+        }
+        write(state, {
+            ids,
+            entities: { ...entities, [entityKey]: { ...entities[entityKey], ...changes } },
+        });
+    };
+
+    return {
+        getInitialState,
+        selectEntity,
+        actions: {
+            addOne: (state, entity) => addMany(state, [entity]),
+            addMany,
+            upsertOne: (state, entity) => {
+                const id = selectId(entity);
+                if (has(state[key].value.entities, toKey(id))) {
+                    updateOne(state, { id, changes: entity });
+                } else {
+                    addMany(state, [entity]);
+                }
+            },
+            updateOne,
+            removeOne: (state, id) => {
+                const { ids, entities } = state[key].value;
+                const entityKey = toKey(id);
+                if (!has(entities, entityKey)) {
+                    return;
+                }
+                const rest = { ...entities };
+                delete rest[entityKey];
+                write(state, {
+                    ids: ids.filter((other) => toKey(other) !== entityKey),
+                    entities: rest,
+                });
+            },
+            setAll: (state, entities) => {
+                write(state, getInitialState(entities));
+            },
+        },
+        derived: {
+            selectAll: (state) => {
+                const signals = signalsOf(state);
+                return signals.ids.value.map((id) => signals.entities.get(toKey(id))?.value as T);
+            },
+            selectTotal: (state) => signalsOf(state).ids.value.length,
+            selectById: (state) => (id) => selectEntity(state, id).value,
+        },
+    };
+}
@@ -1,3 +1,11 @@
 export * from "./store";
 export * from "./types";
+export * from "./actionPipeline";
+export * from "./asyncAction";
+export * from "./optimisticAction";
+export * from "./subscribe";
+export * from "./entityAdapter";
+export * from "./ssr";
+export * from "./slices";
+export * from "./sessionReplay";
 export * from "./middleware";
@@ -0,0 +1,5 @@
+/**
+ * Returns true for promises and other thenables (e.g. the results of async storage adapters)
+ */
+export const isPromise = <T>(value: T | Promise<T>): value is Promise<T> =>
+    typeof (value as Promise<T>)?.then === "function";
@@ -0,0 +1,90 @@
+import { createStore } from "../store";
+import { compose, definePlugin } from "./compose";
+import { createHistoryMiddleware } from "./historyPlugin";
+import { createPersistMiddleware } from "./persistPlugin";
+import { memoryStorageAdapter } from "./storageAdapters";
+import { createValidationMiddleware } from "./validationPlugin";
+
+type CounterState = { count: number };
+
+describe("compose", () => {
+    const counterConfig = {
+        initialState: { count: 0 },
+        actions: {
+            increment: (state: { count: { value: number } }) => {
+                state.count.value++;
+            },
+        },
+    };
+
+    describe("when composing plugins that add members", () => {
+        const storage = memoryStorageAdapter();
+        const clockPlugin = definePlugin({
+            name: "clock",
+            enhance: (store) => ({ createdWithCount: store.getStateSnapshot().count as number }),
+        });
+
+        const createCounter = () =>
+            createStore(
+                compose(
+                    createPersistMiddleware<CounterState>({ name: "counter", storage }),
+                    createHistoryMiddleware<CounterState>(),
+                    clockPlugin
+                )(counterConfig)
+            );
+
+        it("should type and add the members of every plugin", () => {
+            const store = createCounter();
+            store.actions.increment();
+            store.history.undo();
+            store.persist.flush();
+
+            expect(store.count.value).toBe(0);
+            expect(store.history.canRedo.value).toBe(true);
+            expect(store.createdWithCount).toBe(0);
+            expect(storage.items.get("counter")).toContain('"count":0');
+        });
+    });
+
+    it("should apply transforms in plugin order", () => {
+        const calls: string[] = [];
+        const tracePlugin = (name: string) =>
+            definePlugin({
+                name,
+                transform: (config) => ({
+                    ...config,
+                    actionMiddleware: [
+                        ...(config.actionMiddleware ?? []),
+                        { before: () => void calls.push(name) },
+                    ],
+                }),
+            });
+
+        const store = createStore(
+            compose(tracePlugin("first"), tracePlugin("second"))(counterConfig)
+        );
+        store.actions.increment();
+
+        expect(calls).toEqual(["first", "second"]);
+    });
+
+    it("should reject plugins that come before the plugins they must follow", () => {
+        expect(() =>
+            compose(
+                createValidationMiddleware<CounterState>({ validators: {} }),
+                createPersistMiddleware<CounterState>({
+                    name: "counter",
+                    storage: memoryStorageAdapter(),
+                })
+            )
+        ).toThrow("Plugin 'validation' must come after 'persist'");
+    });
+
+    it("should reject members that collide with store keys", () => {
+        const countPlugin = definePlugin({ name: "count", enhance: () => ({ count: 1 }) });
+
+        expect(() => createStore(compose(countPlugin)(counterConfig))).toThrow(
+            "Plugin 'count' key 'count' conflicts with an existing store key"
+        );
+    });
+});
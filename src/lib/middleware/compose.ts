@@ -1,23 +1,116 @@
-import { BeaconState, StoreConfig } from "../types";
+/* eslint-disable @typescript-eslint/no-empty-object-type */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    BeaconState,
+    ComposedStoreConfig,
+    DerivedFamily,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
 
 /**
- * Helper function to compose multiple middleware functions together
+ * The members all of the plugins add to the store, combined
+ */
+export type PluginExtensions<TPlugins extends StorePlugin<any, any>[]> = TPlugins extends [
+    infer TFirst,
+    ...infer TRest extends StorePlugin<any, any>[],
+]
+    ? (TFirst extends StorePlugin<any, infer TExtension> ? TExtension : {}) &
+          PluginExtensions<TRest>
+    : {};
+
+/**
+ * Defines a plugin, inferring the members its enhancer adds to the store
  *
- * @param middlewares Array of middleware functions to compose
- * @returns A function that applies all middleware in sequence
+ * @example
+ * const clockPlugin = definePlugin({
+ *   name: "clock",
+ *   enhance: () => ({ createdAt: Date.now() }),
+ * });
  */
-export function compose<
-    TState extends Record<string, unknown>,
-    TDerived extends Record<string, (state: BeaconState<TState>) => unknown>,
-    TActions extends Record<string, (...args: unknown[]) => unknown>,
->(
-    ...middlewares: ((
-        config: StoreConfig<TState, TDerived, TActions>
-    ) => StoreConfig<TState, TDerived, TActions>)[]
-) {
-    return (
-        config: StoreConfig<TState, TDerived, TActions>
-    ): StoreConfig<TState, TDerived, TActions> => {
-        return middlewares.reduce((acc, middleware) => middleware(acc), config);
+export function definePlugin<
+    TState extends Record<string, any> = any,
+    TExtension extends object = {},
+>(plugin: StorePlugin<TState, TExtension>): StorePlugin<TState, TExtension> {
+    return plugin;
+}
+
+/**
+ * Composes plugins into a single config transform
+ *
+ * Ordering guarantees:
+ * - transforms run in plugin order, so earlier plugins wrap the config first and their action
+ *   middleware runs first
+ * - enhancers run in plugin order once the store is created (after every `onStoreCreated`), so
+ *   an enhancer sees the members added by earlier plugins
+ * - a plugin listing another one in `after` must come after it, or `compose` throws
+ *
+ * The composed config remembers what the plugins add, so the store created from it is typed with
+ * all of their members. A member that collides with an existing store key throws.
+ *
+ * @example
+ * const withPlugins = compose(
+ *   createLocalStorageMiddleware<CounterState>({ name: "counter" }),
+ *   createHistoryMiddleware<CounterState>({ limit: 50 }),
+ *   createDevtoolsMiddleware({ name: "counter" })
+ * );
+ * const store = createStore(withPlugins({ initialState: { count: 0 } }));
+ * store.persist.clear();
+ * store.history.undo();
+ *
+ * @param plugins The plugins, in the order they are applied
+ * @returns A function applying all plugins to a config
+ */
+export function compose<TPlugins extends StorePlugin<any, any>[]>(...plugins: TPlugins) {
+    plugins.forEach((plugin, index) => {
+        for (const required of plugin.after ?? []) {
+            if (plugins.slice(index + 1).some((later) => later.name === required)) {
+                throw new Error(`Plugin '${plugin.name}' must come after '${required}'`);
+            }
+        }
+    });
+
+    return <
+        TState extends Record<string, any>,
+        TDerived extends Record<string, (state: BeaconState<TState>) => any>,
+        TActions extends Record<string, (...args: any[]) => any>,
+        TFamilies extends Record<string, DerivedFamily<TState>> = {},
+    >(
+        config: StoreConfig<TState, TDerived, TActions, TFamilies>
+    ): ComposedStoreConfig<TState, TDerived, TActions, TFamilies, PluginExtensions<TPlugins>> => {
+        const transformed = plugins.reduce(
+            (acc, plugin) => (plugin.transform ? plugin.transform(acc) : acc),
+            config
+        ) as StoreConfig<TState, TDerived, TActions, TFamilies>;
+        const enhancers = plugins.filter((plugin) => plugin.enhance);
+        if (!enhancers.length) {
+            return transformed;
+        }
+
+        const originalOnStoreCreated = transformed.onStoreCreated;
+
+        const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+            // Call the original onStoreCreated if it exists
+            const cleanupOriginal = originalOnStoreCreated
+                ? originalOnStoreCreated(store)
+                : undefined;
+
+            for (const plugin of enhancers) {
+                const extension = plugin.enhance!(store as any);
+                for (const key in extension) {
+                    if (key in store) {
+                        throw new Error(
+                            `Plugin '${plugin.name}' key '${key}' conflicts with an existing store key`
+                        );
+                    }
+                }
+                Object.assign(store, extension);
+            }
+
+            return cleanupOriginal;
+        };
+
+        return { ...transformed, onStoreCreated: newOnStoreCreated };
     };
 }
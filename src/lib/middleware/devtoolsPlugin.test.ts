@@ -0,0 +1,124 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { devtoolsPlugin } from "./devtoolsPlugin";
+
+describe("devtoolsPlugin", () => {
+    let store: any, connection: any, listener: any;
+
+    const createCounterStore = () =>
+        createStore(
+            devtoolsPlugin(
+                {
+                    initialState: { count: 0 },
+                    actions: {
+                        add: (state: any, amount: number) => {
+                            state.count.value += amount;
+                        },
+                    },
+                },
+                { name: "counter" }
+            )
+        ) as any;
+
+    afterEach(() => {
+        delete window.__REDUX_DEVTOOLS_EXTENSION__;
+    });
+
+    describe("when the extension is present", () => {
+        let extension: any;
+
+        beforeEach(() => {
+            connection = {
+                init: jest.fn(),
+                send: jest.fn(),
+                subscribe: jest.fn((fn) => {
+                    listener = fn;
+                }),
+            };
+            extension = { connect: jest.fn(() => connection) };
+            window.__REDUX_DEVTOOLS_EXTENSION__ = extension;
+            store = createCounterStore();
+        });
+
+        it("should connect and send the initial state", () => {
+            expect(extension.connect).toHaveBeenCalledWith({ name: "counter", maxAge: 50 });
+            expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+        });
+
+        it("should send every action with its args and the resulting state", () => {
+            store.actions.add(2);
+            expect(connection.send).toHaveBeenCalledWith({ type: "add", args: [2] }, { count: 2 });
+        });
+
+        it("should write the state back into the signals when jumping to a state", () => {
+            store.actions.add(2);
+            listener({
+                type: "DISPATCH",
+                payload: { type: "JUMP_TO_STATE" },
+                state: JSON.stringify({ count: 0 }),
+            });
+            expect(store.count.value).toEqual(0);
+            expect(connection.send).toHaveBeenCalledTimes(1);
+        });
+
+        it("should restore the initial state on reset", () => {
+            store.actions.add(5);
+            listener({ type: "DISPATCH", payload: { type: "RESET" } });
+            expect(store.count.value).toEqual(0);
+        });
+
+        it("should apply the last computed state when a session is imported", () => {
+            listener({
+                type: "DISPATCH",
+                payload: {
+                    type: "IMPORT_STATE",
+                    nextLiftedState: {
+                        computedStates: [{ state: { count: 1 } }, { state: { count: 7 } }],
+                    },
+                },
+            });
+            expect(store.count.value).toEqual(7);
+        });
+
+        it("should send each store's actions over its own connection", () => {
+            const config = devtoolsPlugin(
+                {
+                    initialState: { count: 0 },
+                    actions: {
+                        add: (state: any, amount: number) => {
+                            state.count.value += amount;
+                        },
+                    },
+                },
+                { name: "counter" }
+            );
+            const connect = () => ({ init: jest.fn(), send: jest.fn(), subscribe: jest.fn() });
+            const [firstConnection, secondConnection] = [connect(), connect()];
+            extension.connect.mockReturnValueOnce(firstConnection);
+            extension.connect.mockReturnValueOnce(secondConnection);
+            const first = createStore(config) as any;
+            const second = createStore(config) as any;
+
+            first.actions.add(1);
+            second.dispose();
+            first.actions.add(2);
+
+            expect(firstConnection.send.mock.calls.map(([action]) => action.args)).toEqual([
+                [1],
+                [2],
+            ]);
+            expect(secondConnection.send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("when the extension is missing", () => {
+        beforeEach(() => {
+            store = createCounterStore();
+        });
+
+        it("should leave the store working without errors", () => {
+            store.actions.add(3);
+            expect(store.count.value).toEqual(3);
+        });
+    });
+});
@@ -0,0 +1,192 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+
+/**
+ * The subset of a Redux DevTools extension connection used by the plugin
+ */
+export interface DevtoolsConnection {
+    init: (state: unknown) => void;
+    send: (action: { type: string; [key: string]: unknown }, state: unknown) => void;
+    subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+}
+
+/**
+ * The subset of `window.__REDUX_DEVTOOLS_EXTENSION__` used by the plugin
+ */
+export interface DevtoolsExtension {
+    connect: (options: { name?: string; maxAge?: number }) => DevtoolsConnection;
+}
+
+/**
+ * A message sent by the DevTools monitor (e.g. when the user clicks a past action)
+ */
+export interface DevtoolsMessage {
+    type: string;
+    payload?: {
+        type: string;
+        nextLiftedState?: { computedStates: { state: unknown }[] };
+    };
+    state?: string;
+}
+
+export interface DevtoolsOptions {
+    /**
+     * The instance name shown in the DevTools instance selector
+     */
+    name: string;
+    /**
+     * Maximum number of actions kept by the monitor
+     * @default 50
+     */
+    maxAge?: number;
+    /**
+     * Set to false to skip connecting (e.g. in production builds)
+     * @default true
+     */
+    enabled?: boolean;
+}
+
+declare global {
+    interface Window {
+        __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension;
+    }
+}
+
+/**
+ * Creates a middleware that connects a store to the Redux DevTools extension
+ *
+ * Every action is sent with its arguments and the resulting state snapshot. Jumping to a past
+ * state, resetting, rolling back or importing a session in the monitor writes the snapshot back
+ * into the state signals. When no extension is installed the plugin does nothing.
+ *
+ * @example
+ * const store = createStore(
+ *   devtoolsPlugin({
+ *     initialState: { count: 0 },
+ *     actions: { increment: (state) => { state.count.value++ } },
+ *   }, { name: "counter-store" })
+ * );
+ */
+export function devtoolsPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: DevtoolsOptions
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const { name, maxAge = 50, enabled = true } = options;
+
+    // the connection of each store created from this config, so actions show up on their own
+    // store's instance in the monitor
+    const connections = new WeakMap<object, DevtoolsConnection>();
+
+    const withMiddleware = addActionMiddleware(config, {
+        after: ({ store, name: type, args, stateAfter, cancelled }) => {
+            const connection = connections.get(store);
+            if (connection && !cancelled) {
+                connection.send({ type, args }, stateAfter);
+            }
+        },
+    });
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        const extension =
+            typeof window !== "undefined" ? window.__REDUX_DEVTOOLS_EXTENSION__ : undefined;
+
+        let unsubscribe: (() => void) | void;
+        if (enabled && extension) {
+            const connection = extension.connect({ name, maxAge });
+            connections.set(store, connection);
+            const initialSnapshot = store.getStateSnapshot();
+            connection.init(initialSnapshot);
+
+            const parseState = (state: string | undefined): Partial<TState> | undefined => {
+                try {
+                    return state ? JSON.parse(state) : undefined;
+                } catch (error: unknown) {
+                    console.error(
+                        "Failed to parse state from Redux DevTools:",
+                        error instanceof Error ? error.message : String(error)
+                    );
+                    return undefined;
+                }
+            };
+
+            unsubscribe = connection.subscribe((message) => {
+                if (message.type !== "DISPATCH" || !message.payload) {
+                    return;
+                }
+                switch (message.payload.type) {
+                    case "JUMP_TO_STATE":
+                    case "JUMP_TO_ACTION": {
+                        const state = parseState(message.state);
+                        if (state) {
+                            store.setState(state);
+                        }
+                        break;
+                    }
+                    case "RESET":
+                        store.setState(initialSnapshot);
+                        connection.init(store.getStateSnapshot());
+                        break;
+                    case "COMMIT":
+                        connection.init(store.getStateSnapshot());
+                        break;
+                    case "ROLLBACK": {
+                        const state = parseState(message.state);
+                        if (state) {
+                            store.setState(state);
+                            connection.init(store.getStateSnapshot());
+                        }
+                        break;
+                    }
+                    case "IMPORT_STATE": {
+                        const computedStates =
+                            message.payload.nextLiftedState?.computedStates ?? [];
+                        const last = computedStates[computedStates.length - 1];
+                        if (last) {
+                            store.setState(last.state as Partial<TState>);
+                        }
+                        break;
+                    }
+                }
+            });
+        }
+
+        // Call the original onStoreCreated if it exists
+        const cleanupOriginal = originalOnStoreCreated ? originalOnStoreCreated(store) : undefined;
+
+        return () => {
+            connections.delete(store);
+            if (unsubscribe) {
+                unsubscribe();
+            }
+            if (cleanupOriginal) {
+                cleanupOriginal();
+            }
+        };
+    };
+
+    return { ...withMiddleware, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `devtoolsPlugin` as a plugin object, for `compose`
+ */
+export function createDevtoolsMiddleware(options: DevtoolsOptions): StorePlugin {
+    return { name: "devtools", transform: (config) => devtoolsPlugin(config, options) };
+}
@@ -0,0 +1,218 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { historyPlugin } from "./historyPlugin";
+
+describe("historyPlugin", () => {
+    let store: any, now: number;
+
+    const createEditorStore = (options: any = {}) =>
+        createStore(
+            historyPlugin(
+                {
+                    initialState: { products: [] as string[], selectedProductId: null as any },
+                    actions: {
+                        addProduct: (state: any, name: string) => {
+                            state.products.value = [...state.products.value, name];
+                        },
+                        select: (state: any, id: string) => {
+                            state.selectedProductId.value = id;
+                        },
+                    },
+                },
+                options
+            )
+        ) as any;
+
+    beforeEach(() => {
+        now = 1000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("when actions change tracked state", () => {
+        beforeEach(() => {
+            store = createEditorStore({ exclude: ["selectedProductId"] });
+            store.actions.addProduct("Laptop");
+            now += 1000;
+            store.actions.addProduct("Mouse");
+        });
+
+        it("should allow undoing each action", () => {
+            expect(store.history.canUndo.value).toBe(true);
+            store.history.undo();
+            expect(store.products.value).toEqual(["Laptop"]);
+            store.history.undo();
+            expect(store.products.value).toEqual([]);
+            expect(store.history.canUndo.value).toBe(false);
+        });
+
+        it("should allow redoing undone actions", () => {
+            store.history.undo();
+            store.history.undo();
+            store.history.redo();
+            expect(store.products.value).toEqual(["Laptop"]);
+            expect(store.history.canRedo.value).toBe(true);
+        });
+
+        it("should drop the redo stack when a new action is recorded", () => {
+            store.history.undo();
+            store.actions.addProduct("Keyboard");
+            expect(store.history.canRedo.value).toBe(false);
+        });
+
+        it("should not record or restore excluded keys", () => {
+            store.actions.select("1");
+            store.history.undo();
+            expect(store.selectedProductId.value).toEqual("1");
+            expect(store.products.value).toEqual(["Laptop"]);
+        });
+
+        it("should forget all entries on clearHistory", () => {
+            store.history.clearHistory();
+            expect(store.history.canUndo.value).toBe(false);
+            expect(store.products.value).toEqual(["Laptop", "Mouse"]);
+        });
+    });
+
+    describe("when the history limit is reached", () => {
+        beforeEach(() => {
+            store = createEditorStore({ limit: 2 });
+            ["a", "b", "c"].forEach((name) => {
+                now += 1000;
+                store.actions.addProduct(name);
+            });
+            store.history.undo();
+            store.history.undo();
+        });
+
+        it("should drop the oldest entries", () => {
+            expect(store.products.value).toEqual(["a"]);
+            expect(store.history.canUndo.value).toBe(false);
+        });
+    });
+
+    describe("when actions happen within the merge window", () => {
+        beforeEach(() => {
+            store = createEditorStore({ mergeWithin: 500 });
+            store.actions.addProduct("a");
+            now += 1000;
+            store.actions.addProduct("b");
+            now += 100;
+            store.actions.addProduct("c");
+            now += 100;
+            store.actions.addProduct("d");
+        });
+
+        it("should undo the merged actions in one step", () => {
+            store.history.undo();
+            expect(store.products.value).toEqual(["a"]);
+        });
+    });
+
+    describe("when state changes outside of actions", () => {
+        beforeEach(() => {
+            store = createEditorStore();
+            store.actions.addProduct("a");
+            store.setState({ products: ["a", "synced"] });
+            now += 1000;
+            store.actions.select("1");
+        });
+
+        it("should keep the change when undoing the next action", () => {
+            store.history.undo();
+            expect(store.products.value).toEqual(["a", "synced"]);
+            expect(store.selectedProductId.value).toBeNull();
+        });
+
+        it("should keep the change when redoing", () => {
+            store.history.undo();
+            store.history.undo();
+            store.history.redo();
+            store.history.redo();
+            expect(store.products.value).toEqual(["a", "synced"]);
+            expect(store.selectedProductId.value).toBe("1");
+        });
+    });
+
+    it("should record an action calling other actions as one entry", () => {
+        store = createStore(
+            historyPlugin({
+                initialState: { count: 0 },
+                actions: {
+                    increment: (state: any) => {
+                        state.count.value++;
+                    },
+                    incrementTwice: function (this: any) {
+                        this.actions.increment();
+                        this.actions.increment();
+                    },
+                },
+            })
+        ) as any;
+        store.actions.incrementTwice();
+        store.history.undo();
+
+        expect(store.count.value).toBe(0);
+        expect(store.history.canUndo.value).toBe(false);
+    });
+
+    it("should record an async action once it settles, with what it wrote after an await", async () => {
+        store = createStore(
+            historyPlugin({
+                initialState: { products: [] as string[], loading: false },
+                actions: {
+                    addProduct: (state: any, name: string) => {
+                        state.products.value = [...state.products.value, name];
+                    },
+                    async load(this: any, state: any) {
+                        state.loading.value = true;
+                        await Promise.resolve();
+                        state.products.value = ["Laptop"];
+                        this.actions.addProduct("Mouse");
+                        state.loading.value = false;
+                    },
+                },
+            })
+        ) as any;
+        await store.actions.load();
+
+        expect(store.history.canUndo.value).toBe(true);
+        store.history.undo();
+        expect(store.getStateSnapshot()).toEqual({ products: [], loading: false });
+        store.history.redo();
+        expect(store.products.value).toEqual(["Laptop", "Mouse"]);
+        store.history.undo();
+        expect(store.history.canUndo.value).toBe(false);
+    });
+
+    it("should keep a separate history for each store created from the same config", () => {
+        const config = historyPlugin({
+            initialState: { count: 0 },
+            actions: {
+                increment: (state: any) => {
+                    state.count.value++;
+                },
+            },
+        });
+        const first = createStore(config) as any;
+        const second = createStore(config) as any;
+        first.actions.increment();
+
+        expect(second.history.canUndo.value).toBe(false);
+        second.history.undo();
+        expect(first.count.value).toBe(1);
+        first.history.undo();
+        expect(first.count.value).toBe(0);
+    });
+
+    describe("when the store already has a history key", () => {
+        it("should throw an error", () => {
+            expect(() => createStore(historyPlugin({ initialState: { history: [] } }))).toThrow(
+                "History key 'history' conflicts with an existing store key"
+            );
+        });
+    });
+});
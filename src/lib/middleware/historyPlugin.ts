@@ -0,0 +1,257 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { computed, ReadonlySignal, signal } from "@preact/signals-react";
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+import { isPromise } from "../isPromise";
+
+export interface HistoryOptions<TState extends Record<string, any>> {
+    /**
+     * Maximum number of undo steps to keep. The oldest entries are dropped first.
+     * @default 100
+     */
+    limit?: number;
+    /**
+     * State keys to track. When omitted, every state key is tracked.
+     */
+    include?: (keyof TState)[];
+    /**
+     * State keys to ignore (e.g. transient UI state like a selection)
+     */
+    exclude?: (keyof TState)[];
+    /**
+     * Actions that finish within this many milliseconds of the previously recorded action are
+     * merged into the same history entry, so a burst of quick updates undoes in one step.
+     * @default 0 (never merge)
+     */
+    mergeWithin?: number;
+}
+
+/**
+ * The undo/redo API added to the store as `store.history`
+ */
+export interface HistoryControls {
+    /**
+     * Restores the tracked state to the previous history entry
+     */
+    undo: () => void;
+    /**
+     * Re-applies the history entry that was last undone
+     */
+    redo: () => void;
+    /**
+     * True when there is at least one entry to undo
+     */
+    canUndo: ReadonlySignal<boolean>;
+    /**
+     * True when there is at least one entry to redo
+     */
+    canRedo: ReadonlySignal<boolean>;
+    /**
+     * Drops all undo/redo entries, keeping the current state as the new starting point
+     */
+    clearHistory: () => void;
+}
+
+/**
+ * Members added to a store created from a config wrapped with `historyPlugin`
+ */
+export type WithHistory = { history: HistoryControls };
+
+/**
+ * Creates a middleware that records undo/redo history whenever an action finishes
+ *
+ * Only the tracked keys (see `include`/`exclude`) are recorded and restored; untracked keys keep
+ * their current value on undo/redo. Writes made outside of actions are not recorded as entries
+ * of their own; they become part of the entry they happened in. An action calling other actions
+ * is recorded as one entry. An async action is recorded once it settles, so the writes it makes
+ * after an `await` can be undone with it.
+ *
+ * @example
+ * const store = createStore(
+ *   historyPlugin({
+ *     initialState: { products: [], selectedProductId: null },
+ *     actions: { setProducts: (state, products) => { state.products.value = products } },
+ *   }, { include: ["products"], limit: 50 })
+ * ) as Store<State, {}, Actions> & WithHistory;
+ *
+ * store.actions.setProducts([...]);
+ * store.history.undo();
+ */
+export function historyPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: HistoryOptions<TState> = {}
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const { limit = 100, include, exclude = [], mergeWithin = 0 } = options;
+
+    const isTracked = (key: string) =>
+        (!include || include.includes(key as keyof TState)) &&
+        !exclude.includes(key as keyof TState);
+
+    const pick = (state: TState) => {
+        const tracked: Partial<TState> = {};
+        for (const key in state) {
+            if (isTracked(key)) {
+                tracked[key] = state[key];
+            }
+        }
+        return tracked;
+    };
+
+    const isSameEntry = (a: Partial<TState>, b: Partial<TState>) =>
+        Object.keys(a).every((key) => Object.is(a[key], b[key]));
+
+    // the history of each store created from this config, kept apart so instances don't share
+    // an undo stack
+    const histories = new WeakMap<
+        object,
+        {
+            record: (before: Partial<TState> | undefined, after: Partial<TState>) => void;
+            depth: number;
+        }
+    >();
+
+    const withMiddleware = addActionMiddleware(config, {
+        // count running actions, so an action calling another one is recorded as a single entry
+        around: ({ store }, next) => {
+            const history = histories.get(store);
+            if (!history) {
+                return next();
+            }
+            history.depth++;
+            try {
+                return next();
+            } finally {
+                history.depth--;
+            }
+        },
+        after: ({ store, stateBefore, stateAfter, result, parent, cancelled }) => {
+            const history = histories.get(store);
+            // calls an action makes after an await belong to its entry, like the ones before it
+            if (!history || history.depth > 0 || parent || cancelled) {
+                return;
+            }
+            if (isPromise(result)) {
+                // whatever changed while it ran is part of its entry
+                const record = () => history.record(undefined, pick(store.getStateSnapshot()));
+                result.then(record, record);
+            } else {
+                history.record(pick(stateBefore), pick(stateAfter));
+            }
+        },
+    });
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        if ("history" in store) {
+            throw new Error("History key 'history' conflicts with an existing store key");
+        }
+
+        // past/future are stored as signals so canUndo/canRedo stay reactive
+        const past = signal<Partial<TState>[]>([]);
+        const future = signal<Partial<TState>[]>([]);
+        // start from whatever the store actually holds (other middleware may have hydrated it)
+        let present = pick(store.getStateSnapshot());
+        let lastRecordedAt = -Infinity;
+
+        /**
+         * Catches up with writes made outside of actions (setState, rollbacks, sync from other
+         * tabs), so they become part of the current entry instead of being undone with the next
+         * action or lost on undo
+         */
+        const refresh = (current: Partial<TState>) => {
+            if (!isSameEntry(present, current)) {
+                present = current;
+                lastRecordedAt = -Infinity;
+            }
+        };
+
+        // without `before`, writes made since the last entry are folded into this one
+        const record = (before: Partial<TState> | undefined, next: Partial<TState>) => {
+            if (before) {
+                refresh(before);
+            }
+            if (isSameEntry(present, next)) {
+                return;
+            }
+            const now = Date.now();
+            if (past.value.length && now - lastRecordedAt <= mergeWithin) {
+                // fold this change into the current entry instead of creating a new one
+                present = next;
+            } else {
+                past.value = [...past.value, present].slice(-limit);
+                present = next;
+            }
+            future.value = [];
+            lastRecordedAt = now;
+        };
+        histories.set(store, { record, depth: 0 });
+
+        const history: HistoryControls = {
+            undo: () => {
+                if (!past.value.length) {
+                    return;
+                }
+                refresh(pick(store.getStateSnapshot()));
+                const previous = past.value[past.value.length - 1];
+                future.value = [present, ...future.value];
+                past.value = past.value.slice(0, -1);
+                present = previous;
+                lastRecordedAt = -Infinity;
+                store.setState(previous);
+            },
+            redo: () => {
+                if (!future.value.length) {
+                    return;
+                }
+                refresh(pick(store.getStateSnapshot()));
+                const [next, ...rest] = future.value;
+                past.value = [...past.value, present];
+                future.value = rest;
+                present = next;
+                lastRecordedAt = -Infinity;
+                store.setState(next);
+            },
+            canUndo: computed(() => past.value.length > 0),
+            canRedo: computed(() => future.value.length > 0),
+            clearHistory: () => {
+                past.value = [];
+                future.value = [];
+                present = pick(store.getStateSnapshot());
+                lastRecordedAt = -Infinity;
+            },
+        };
+        Object.assign(store, { history });
+
+        // Call the original onStoreCreated if it exists (its cleanup runs on dispose)
+        if (originalOnStoreCreated) {
+            return originalOnStoreCreated(store);
+        }
+    };
+
+    return { ...withMiddleware, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `historyPlugin` as a plugin object, for `compose`
+ * The store gets `store.history` (see `HistoryControls`).
+ */
+export function createHistoryMiddleware<TState extends Record<string, any> = any>(
+    options: HistoryOptions<TState> = {}
+): StorePlugin<TState, WithHistory> {
+    return { name: "history", transform: (config) => historyPlugin(config, options) };
+}
@@ -1,2 +1,11 @@
 export * from "./compose";
+export * from "./storageAdapters";
+export * from "./persistPlugin";
 export * from "./localStoragePlugin";
+export * from "./historyPlugin";
+export * from "./devtoolsPlugin";
+export * from "./telemetryClient";
+export * from "./telemetryPlugin";
+export * from "./validationPlugin";
+export * from "./sessionRecorderPlugin";
+export * from "./urlSyncPlugin";
@@ -0,0 +1,347 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { localStoragePlugin } from "./localStoragePlugin";
+import { chainMigrations } from "./persistPlugin";
+
+describe("localStoragePlugin", () => {
+    let store: any, onError: jest.Mock, setItem: jest.SpyInstance;
+
+    const createProductStore = (options: any = {}) =>
+        createStore(
+            localStoragePlugin(
+                { initialState: { sortBy: "name", products: [] as any[] } },
+                { name: "products", onError, ...options }
+            )
+        ) as any;
+
+    const stored = () => JSON.parse(localStorage.getItem("products")!);
+
+    // what another tab writing to localStorage looks like to this one
+    const receiveStorageEvent = (key: string, newValue: string) =>
+        window.dispatchEvent(
+            new StorageEvent("storage", { key, newValue, storageArea: localStorage })
+        );
+
+    beforeEach(() => {
+        onError = jest.fn();
+        setItem = jest.spyOn(Storage.prototype, "setItem");
+    });
+
+    afterEach(() => {
+        store?.dispose();
+        store = undefined;
+        jest.restoreAllMocks();
+        localStorage.clear();
+    });
+
+    describe("when saving state", () => {
+        beforeEach(() => {
+            store = createProductStore({ version: 3 });
+            store.sortBy.value = "price";
+        });
+
+        it("should wrap the stored state with its version", () => {
+            expect(stored()).toEqual({
+                state: { sortBy: "price", products: [] },
+                version: 3,
+            });
+        });
+    });
+
+    describe("when the stored version matches", () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                "products",
+                JSON.stringify({ state: { sortBy: "qty" }, version: 1 })
+            );
+            store = createProductStore({ version: 1 });
+        });
+
+        it("should merge the stored state into the initial state", () => {
+            expect(store.getStateSnapshot()).toEqual({ sortBy: "qty", products: [] });
+        });
+    });
+
+    describe("when the stored state predates versioning", () => {
+        beforeEach(() => {
+            localStorage.setItem("products", JSON.stringify({ sortBy: "qty" }));
+            store = createProductStore({
+                version: 1,
+                migrate: (persisted: any, fromVersion: number) => ({
+                    ...persisted,
+                    products: [{ fromVersion }],
+                }),
+            });
+        });
+
+        it("should migrate it as version 0", () => {
+            expect(store.getStateSnapshot()).toEqual({
+                sortBy: "qty",
+                products: [{ fromVersion: 0 }],
+            });
+        });
+    });
+
+    describe("when migrating through a chain of steps", () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                "products",
+                JSON.stringify({ state: { orderBy: "price" }, version: 1 })
+            );
+            store = createProductStore({
+                version: 3,
+                migrate: chainMigrations({
+                    1: () => {
+                        throw new Error("should not run");
+                    },
+                    2: ({ orderBy }: any) => ({ sortBy: orderBy }),
+                    3: (state: any) => ({ ...state, products: ["v3"] }),
+                }),
+            });
+        });
+
+        it("should run every step after the stored version in order", () => {
+            expect(store.getStateSnapshot()).toEqual({ sortBy: "price", products: ["v3"] });
+        });
+    });
+
+    describe("when the migration fails", () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                "products",
+                JSON.stringify({ state: { sortBy: "qty" }, version: 1 })
+            );
+            store = createProductStore({
+                version: 2,
+                migrate: () => {
+                    throw new Error("bad data");
+                },
+            });
+        });
+
+        it("should fall back to the initial state", () => {
+            expect(store.getStateSnapshot()).toEqual({ sortBy: "name", products: [] });
+        });
+
+        it("should report the error through onError", () => {
+            expect(onError).toHaveBeenCalledWith(new Error("bad data"), "migrate");
+        });
+    });
+
+    describe("when the stored version is newer than the current version", () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                "products",
+                JSON.stringify({ state: { sortBy: "qty" }, version: 5 })
+            );
+            store = createProductStore({ version: 2 });
+        });
+
+        it("should fall back to the initial state and report the error", () => {
+            expect(store.sortBy.value).toEqual("name");
+            expect(onError).toHaveBeenCalledWith(expect.any(Error), "migrate");
+        });
+    });
+
+    describe("when persisting selected keys", () => {
+        beforeEach(() => {
+            localStorage.setItem(
+                "products",
+                JSON.stringify({
+                    state: { sortBy: "qty", products: [1] },
+                    version: 0,
+                })
+            );
+            store = createProductStore({ exclude: ["products"] });
+            setItem.mockClear();
+        });
+
+        it("should not restore excluded keys", () => {
+            expect(store.products.value).toEqual([]);
+        });
+
+        it("should only write the included keys", () => {
+            store.sortBy.value = "price";
+            expect(stored().state).toEqual({ sortBy: "price" });
+        });
+
+        it("should not write when an excluded key changes", () => {
+            store.products.value = [1, 2];
+            expect(setItem).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("when using partialize", () => {
+        beforeEach(() => {
+            store = createProductStore({
+                partialize: (state: any) => ({ products: state.products.slice(0, 1) }),
+            });
+            store.products.value = ["a", "b"];
+        });
+
+        it("should write what partialize returns", () => {
+            expect(stored().state).toEqual({ products: ["a"] });
+        });
+    });
+
+    describe("when writes are debounced", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+            store = createProductStore({ debounce: 100 });
+            store.sortBy.value = "price";
+            jest.advanceTimersByTime(50);
+            store.sortBy.value = "qty";
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should write once after the state has been quiet", () => {
+            expect(setItem).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(100);
+            expect(setItem).toHaveBeenCalledTimes(1);
+            expect(stored().state.sortBy).toEqual("qty");
+        });
+
+        it("should flush the pending write on pagehide", () => {
+            window.dispatchEvent(new Event("pagehide"));
+            expect(stored().state.sortBy).toEqual("qty");
+        });
+    });
+
+    describe("when writes are throttled", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+            store = createProductStore({ throttle: 100 });
+            jest.advanceTimersByTime(0);
+            setItem.mockClear();
+            store.sortBy.value = "price";
+            store.sortBy.value = "qty";
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should write at most once per interval with the latest state", () => {
+            jest.advanceTimersByTime(100);
+            expect(setItem).toHaveBeenCalledTimes(1);
+            expect(stored().state.sortBy).toEqual("qty");
+        });
+    });
+
+    describe("when syncing across tabs", () => {
+        const remoteValue = (state: any) => JSON.stringify({ state, version: 0 });
+
+        describe("with last-write-wins", () => {
+            beforeEach(() => {
+                store = createProductStore({ sync: true });
+                store.products.value = ["local"];
+                setItem.mockClear();
+                receiveStorageEvent(
+                    "products",
+                    remoteValue({ sortBy: "price", products: ["remote"] })
+                );
+            });
+
+            it("should apply the remote state", () => {
+                expect(store.getStateSnapshot()).toEqual({ sortBy: "price", products: ["remote"] });
+            });
+
+            it("should not write the remote state back", () => {
+                expect(setItem).not.toHaveBeenCalled();
+            });
+
+            it("should ignore events for other keys", () => {
+                receiveStorageEvent("other", remoteValue({ sortBy: "qty" }));
+                expect(store.sortBy.value).toEqual("price");
+            });
+        });
+
+        describe("with per-key merging", () => {
+            beforeEach(() => {
+                jest.useFakeTimers();
+                // the debounced local edit hasn't been written yet when the remote change arrives
+                store = createProductStore({ sync: { conflict: "merge" }, debounce: 100 });
+                store.products.value = ["local"];
+                receiveStorageEvent("products", remoteValue({ sortBy: "price", products: [] }));
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            it("should only apply the keys the other tab changed", () => {
+                expect(store.getStateSnapshot()).toEqual({ sortBy: "price", products: ["local"] });
+            });
+
+            it("should persist the merged state", () => {
+                jest.advanceTimersByTime(100);
+                expect(stored().state).toEqual({
+                    sortBy: "price",
+                    products: ["local"],
+                });
+            });
+        });
+
+        describe("with a custom resolver", () => {
+            let resolver: jest.Mock;
+
+            beforeEach(() => {
+                resolver = jest.fn((local: any, remote: any) => ({
+                    products: [...local.products, ...remote.products],
+                }));
+                store = createProductStore({ sync: { conflict: resolver } });
+                store.products.value = ["local"];
+                receiveStorageEvent(
+                    "products",
+                    remoteValue({ sortBy: "name", products: ["remote"] })
+                );
+            });
+
+            it("should apply what the resolver returns", () => {
+                expect(resolver).toHaveBeenCalledWith(
+                    { sortBy: "name", products: ["local"] },
+                    { sortBy: "name", products: ["remote"] },
+                    { sortBy: "name", products: ["local"] }
+                );
+                expect(store.products.value).toEqual(["local", "remote"]);
+            });
+        });
+
+        describe("over a BroadcastChannel", () => {
+            let channels: any[];
+            const OriginalBroadcastChannel = globalThis.BroadcastChannel;
+
+            beforeEach(() => {
+                channels = [];
+                (globalThis as any).BroadcastChannel = jest.fn(function (this: any, id: string) {
+                    this.id = id;
+                    this.postMessage = jest.fn();
+                    this.close = jest.fn();
+                    channels.push(this);
+                });
+                store = createProductStore({ sync: { transport: "broadcast-channel" } });
+            });
+
+            afterEach(() => {
+                globalThis.BroadcastChannel = OriginalBroadcastChannel;
+            });
+
+            it("should post every write to the channel", () => {
+                store.sortBy.value = "qty";
+                expect(channels[0].id).toEqual("beacon:products");
+                expect(channels[0].postMessage).toHaveBeenCalledWith(
+                    localStorage.getItem("products")
+                );
+            });
+
+            it("should apply messages from other tabs", () => {
+                channels[0].onmessage({ data: remoteValue({ sortBy: "qty", products: [] }) });
+                expect(store.sortBy.value).toEqual("qty");
+                expect(channels[0].postMessage).not.toHaveBeenCalled();
+            });
+        });
+    });
+});
@@ -1,38 +1,24 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { effect } from "@preact/signals-react";
 import {
     BeaconState,
+    DerivedFamily,
     EmptyActions,
     EmptyDerived,
-    MiddlewareFunction,
-    Store,
+    EmptyFamilies,
     StoreConfig,
+    StorePlugin,
 } from "../types";
+import { persistPlugin, PersistOptions, WithPersist } from "./persistPlugin";
+import { localStorageAdapter } from "./storageAdapters";
 
-export interface LocalStorageOptions<TState extends Record<string, any>> {
-    /**
-     * The key to use for storing in localStorage
-     */
-    name: string;
-    /**
-     * Whether to merge with existing localStorage data or replace it entirely
-     * @default true
-     */
-    merge?: boolean;
-    /**
-     * Optional serialization function
-     * @default JSON.stringify
-     */
-    serialize?: (value: Partial<TState>) => string;
-    /**
-     * Optional deserialization function
-     * @default JSON.parse
-     */
-    deserialize?: (value: string) => Partial<TState>;
-}
+export type LocalStorageOptions<TState extends Record<string, any>> = Omit<
+    PersistOptions<TState>,
+    "storage"
+>;
 
 /**
  * Creates a middleware that synchronizes store state with localStorage
+ * This is `persistPlugin` with the localStorage adapter; see `PersistOptions` for all options.
  *
  * @example
  * // Basic usage with default options:
@@ -42,13 +28,40 @@ export interface LocalStorageOptions<TState extends Record<string, any>> {
  *   }, { name: "counter-store" })
  * );
  *
+ * // Persisting only some keys, at most once every 500ms:
+ * const store = createStore(
+ *   localStoragePlugin({
+ *     initialState: { products: [], selectedProductId: null }
+ *   }, { name: "product-store", exclude: ["selectedProductId"], debounce: 500 })
+ * );
+ *
+ * // Synced across tabs, keeping local edits to keys the other tab didn't touch:
+ * const store = createStore(
+ *   localStoragePlugin({
+ *     initialState: { products: [], sortBy: "name" }
+ *   }, { name: "product-store", sync: { conflict: "merge" } })
+ * );
+ *
+ * // With a versioned shape:
+ * const store = createStore(
+ *   localStoragePlugin({
+ *     initialState: { user: { firstName: "John", lastName: "Doe" } }
+ *   }, {
+ *     name: "user-store",
+ *     version: 1,
+ *     migrate: (persisted, fromVersion) => fromVersion === 0
+ *       ? { user: { firstName: persisted.user.name, lastName: "" } }
+ *       : persisted
+ *   })
+ * );
+ *
  * // With custom serialization:
  * const store = createStore(
  *   localStoragePlugin({
  *     initialState: { user: { name: "John" } }
  *   }, {
  *     name: "user-store",
- *     serialize: user => btoa(JSON.stringify(user)),
+ *     serialize: persisted => btoa(JSON.stringify(persisted)),
  *     deserialize: str => JSON.parse(atob(str))
  *   })
  * );
@@ -57,76 +70,28 @@ export function localStoragePlugin<
     TState extends Record<string, any>,
     TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
     TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
 >(
-    config: StoreConfig<TState, TDerived, TActions>,
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
     options: LocalStorageOptions<TState>
-): StoreConfig<TState, TDerived, TActions> {
-    const {
-        name,
-        merge = true,
-        serialize = JSON.stringify as (value: Partial<TState>) => string,
-        deserialize = JSON.parse as (value: string) => Partial<TState>,
-    } = options;
-
-    // Try to load state from localStorage
-    let storedState: Partial<TState> = {};
-    try {
-        const stored = window.localStorage.getItem(name);
-        if (stored) {
-            storedState = deserialize(stored);
-        }
-    } catch (error: unknown) {
-        console.error(
-            "Failed to load state from localStorage:",
-            error instanceof Error ? error.message : String(error)
-        );
-    }
-
-    // Merge or replace initialState with localStorage data
-    const initialState = merge
-        ? { ...config.initialState, ...storedState }
-        : ({ ...storedState } as TState);
-
-    // Create a new onStoreCreated function that calls the original one if it exists
-    const originalOnStoreCreated = config.onStoreCreated;
-
-    const newOnStoreCreated = (store: Store<TState, TDerived, TActions>) => {
-        // Set up localStorage synchronization
-        const saveToStorage = () => {
-            try {
-                const snapshot = store.getStateSnapshot({ withDerived: false });
-                window.localStorage.setItem(name, serialize(snapshot));
-            } catch (error: unknown) {
-                console.error(
-                    "Failed to save state to localStorage:",
-                    error instanceof Error ? error.message : String(error)
-                );
-            }
-        };
-
-        effect(() => {
-            for (const key in initialState) {
-                const stateToPersist: Record<string, unknown> = {};
-                if (key in store) {
-                    stateToPersist[key] = store[key].value;
-                }
-                saveToStorage();
-            }
-        });
-
-        // Call the original onStoreCreated if it exists
-        if (originalOnStoreCreated) {
-            originalOnStoreCreated(store);
-        }
-    };
-
-    return { ...config, initialState, onStoreCreated: newOnStoreCreated };
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    return persistPlugin(config, { ...options, storage: localStorageAdapter() });
 }
 
-// Type-safe alias for creating middleware functions with explicit type checking
-export const createLocalStorageMiddleware: <
-    TState extends Record<string, any>,
-    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
-    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
->() => MiddlewareFunction<TState, TDerived, TActions, LocalStorageOptions<TState>> = () =>
-    localStoragePlugin;
+/**
+ * The `localStoragePlugin` as a plugin object, for `compose`
+ * The store gets `store.persist` (see `PersistControls`).
+ *
+ * @example
+ * const store = createStore(
+ *   compose(createLocalStorageMiddleware<CounterState>({ name: "counter-store" }))({
+ *     initialState: { count: 0 },
+ *   })
+ * );
+ * store.persist.clear();
+ */
+export function createLocalStorageMiddleware<TState extends Record<string, any> = any>(
+    options: LocalStorageOptions<TState>
+): StorePlugin<TState, WithPersist> {
+    return { name: "persist", transform: (config) => localStoragePlugin(config, options) };
+}
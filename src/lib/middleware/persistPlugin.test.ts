@@ -0,0 +1,204 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { persistPlugin } from "./persistPlugin";
+import { memoryStorageAdapter } from "./storageAdapters";
+
+describe("persistPlugin", () => {
+    let storage: ReturnType<typeof memoryStorageAdapter>,
+        store: any,
+        onRehydrated: jest.Mock,
+        resolveRead: (value: string | null) => void,
+        rejectRead: (error: unknown) => void;
+
+    const stored = (state: any) => JSON.stringify({ state, version: 0 });
+
+    const createCounterStore = (options: any = {}) =>
+        createStore(
+            persistPlugin(
+                {
+                    initialState: { count: 0 },
+                    actions: {
+                        add: (state: any, amount: number) => {
+                            state.count.value += amount;
+                        },
+                        save: async (state: any) => state.count.value,
+                    },
+                },
+                { name: "counter", storage, onRehydrated, onError: jest.fn(), ...options }
+            )
+        ) as any;
+
+    // an adapter whose first read resolves only when the test says so
+    const makeAsync = () => {
+        storage.getItem = () =>
+            new Promise((resolve, reject) => {
+                resolveRead = resolve;
+                rejectRead = reject;
+            });
+    };
+
+    beforeEach(() => {
+        storage = memoryStorageAdapter({ counter: stored({ count: 5 }) });
+        onRehydrated = jest.fn();
+    });
+
+    describe("with a synchronous adapter", () => {
+        beforeEach(() => {
+            store = createCounterStore();
+        });
+
+        it("should start out hydrated", () => {
+            expect(store.count.value).toEqual(5);
+            expect(store.persist.hasHydrated.value).toBe(true);
+            expect(onRehydrated).toHaveBeenCalledWith({ count: 5 }, undefined);
+        });
+
+        it("should write pending changes and stop persisting on dispose", () => {
+            store = createCounterStore({ debounce: 100 });
+            store.actions.add(1);
+            store.dispose();
+            expect(JSON.parse(storage.items.get("counter")!).state).toEqual({ count: 6 });
+            store.actions.add(1);
+            expect(JSON.parse(storage.items.get("counter")!).state).toEqual({ count: 6 });
+        });
+
+        it("should keep initialState as the reset target", () => {
+            store.resetState();
+            expect(store.count.value).toEqual(0);
+        });
+
+        it("should remove the stored state on clear", async () => {
+            await store.persist.clear();
+            expect(storage.items.has("counter")).toBe(false);
+        });
+    });
+
+    describe("with an asynchronous adapter", () => {
+        beforeEach(() => {
+            makeAsync();
+        });
+
+        describe("before hydration finishes", () => {
+            beforeEach(() => {
+                storage.items.clear();
+                store = createCounterStore();
+            });
+
+            it("should not be hydrated yet", () => {
+                expect(store.persist.hasHydrated.value).toBe(false);
+                expect(onRehydrated).not.toHaveBeenCalled();
+            });
+
+            it("should not write the initial state to storage", () => {
+                expect(storage.items.has("counter")).toBe(false);
+            });
+        });
+
+        describe("when hydration succeeds", () => {
+            beforeEach(async () => {
+                store = createCounterStore();
+                store.actions.add(1);
+                resolveRead(stored({ count: 5 }));
+                await Promise.resolve();
+            });
+
+            it("should apply the stored state and flip hasHydrated", () => {
+                expect(store.persist.hasHydrated.value).toBe(true);
+                expect(onRehydrated).toHaveBeenCalledWith({ count: 5 }, undefined);
+            });
+
+            it("should replay actions queued before hydration on top of the stored state", () => {
+                expect(store.count.value).toEqual(6);
+                expect(JSON.parse(storage.items.get("counter")!).state).toEqual({ count: 6 });
+            });
+        });
+
+        describe("when actions before hydration are dropped", () => {
+            beforeEach(async () => {
+                store = createCounterStore({ actionsBeforeHydration: "drop" });
+                store.actions.add(1);
+                resolveRead(stored({ count: 5 }));
+                await Promise.resolve();
+            });
+
+            it("should ignore them", () => {
+                expect(store.count.value).toEqual(5);
+            });
+
+            it("should reject the calls' promises", async () => {
+                await expect(store.actions.save()).resolves.toEqual(5);
+                store = createCounterStore({ actionsBeforeHydration: "drop" });
+                await expect(store.actions.save()).rejects.toThrow(
+                    "Action 'save' was dropped because 'counter' hasn't hydrated yet"
+                );
+            });
+        });
+
+        describe("when an action returning a promise is queued", () => {
+            let call: Promise<unknown>;
+
+            beforeEach(() => {
+                store = createCounterStore();
+                call = store.actions.save();
+            });
+
+            it("should settle its promise once the call is replayed", async () => {
+                resolveRead(stored({ count: 5 }));
+                await expect(call).resolves.toEqual(5);
+            });
+
+            it("should reject its promise when the store is disposed first", async () => {
+                store.dispose();
+                await expect(call).rejects.toThrow(
+                    "Action 'save' was dropped because 'counter' was disposed before it hydrated"
+                );
+            });
+        });
+
+        it("should hydrate and replay queued actions per store created from the same config", async () => {
+            const config = persistPlugin(
+                {
+                    initialState: { count: 0 },
+                    actions: {
+                        add: (state: any, amount: number) => {
+                            state.count.value += amount;
+                        },
+                    },
+                },
+                { name: "counter", storage }
+            );
+            const first = createStore(config) as any;
+            const second = createStore(config) as any;
+            first.actions.add(1);
+            second.actions.add(2);
+            resolveRead(stored({ count: 5 }));
+            await Promise.resolve();
+
+            expect(first.count.value).toEqual(6);
+            expect(second.count.value).toEqual(7);
+            expect(second.persist.hasHydrated).not.toBe(first.persist.hasHydrated);
+        });
+
+        describe("when reading from storage fails", () => {
+            let error: Error;
+
+            beforeEach(async () => {
+                error = new Error("quota");
+                store = createCounterStore();
+                rejectRead(error);
+                await Promise.resolve();
+                await Promise.resolve();
+            });
+
+            it("should expose the error and keep the initial state", () => {
+                expect(store.persist.hydrationError.value).toBe(error);
+                expect(store.persist.hasHydrated.value).toBe(true);
+                expect(store.count.value).toEqual(0);
+            });
+
+            it("should report the error to onRehydrated", () => {
+                expect(onRehydrated).toHaveBeenCalledWith({ count: 0 }, error);
+            });
+        });
+    });
+});
@@ -0,0 +1,674 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { effect, ReadonlySignal, Signal, signal } from "@preact/signals-react";
+import { StorageAdapter } from "./storageAdapters";
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+import { isPromise } from "../isPromise";
+import { storageOverride } from "./storageOverride";
+
+/**
+ * The shape written to storage: the persisted state wrapped with the version it was saved at
+ */
+export interface PersistedState<TState extends Record<string, any>> {
+    state: Partial<TState>;
+    version: number;
+}
+
+/**
+ * Identifies which step of the persistence lifecycle failed
+ */
+export type PersistencePhase = "load" | "migrate" | "save";
+
+/**
+ * Decides what to apply when another tab persisted a new state
+ *
+ * @param local The persisted keys as they currently are in this tab
+ * @param remote The state the other tab persisted
+ * @param base The state both tabs last agreed on (last written or received by this tab)
+ * @returns The persisted keys to apply to this tab's store
+ */
+export type ConflictResolver<TState extends Record<string, any>> = (
+    local: Partial<TState>,
+    remote: Partial<TState>,
+    base: Partial<TState>
+) => Partial<TState>;
+
+export interface CrossTabSyncOptions<TState extends Record<string, any>> {
+    /**
+     * How changes are picked up from other tabs: change notifications from the storage adapter
+     * (`storage` events for localStorage), or a `BroadcastChannel` named after the storage key
+     * @default "storage"
+     */
+    transport?: "storage" | "broadcast-channel";
+    /**
+     * How remote changes are combined with this tab's state
+     * - `last-write-wins`: the remote state replaces the persisted keys
+     * - `merge`: only keys the other tab actually changed are applied, local changes to other keys are kept
+     * - a custom resolver function
+     * @default "last-write-wins"
+     */
+    conflict?: "last-write-wins" | "merge" | ConflictResolver<TState>;
+}
+
+const lastWriteWins = <TState extends Record<string, any>>(
+    _local: Partial<TState>,
+    remote: Partial<TState>
+) => remote;
+
+const mergeChangedKeys = <TState extends Record<string, any>>(
+    local: Partial<TState>,
+    remote: Partial<TState>,
+    base: Partial<TState>
+) => {
+    const next = { ...local };
+    for (const key in remote) {
+        if (JSON.stringify(remote[key]) !== JSON.stringify(base[key])) {
+            next[key] = remote[key];
+        }
+    }
+    return next;
+};
+
+export interface PersistOptions<TState extends Record<string, any>> {
+    /**
+     * The key to store the state under
+     */
+    name: string;
+    /**
+     * Where the state is stored (see `localStorageAdapter`, `indexedDBAdapter`, ...)
+     */
+    storage: StorageAdapter;
+    /**
+     * Whether to merge with existing stored data or replace it entirely
+     * @default true
+     */
+    merge?: boolean;
+    /**
+     * State keys to persist. When omitted, every state key is persisted.
+     */
+    include?: (keyof TState)[];
+    /**
+     * State keys that are never persisted (e.g. transient UI state like a selection)
+     */
+    exclude?: (keyof TState)[];
+    /**
+     * Picks the part of the state to persist. Takes precedence over `include`/`exclude`.
+     */
+    partialize?: (state: TState) => Partial<TState>;
+    /**
+     * Wait until the state has been quiet for this many milliseconds before writing
+     * @default 0 (write on every change)
+     */
+    debounce?: number;
+    /**
+     * Write at most once per this many milliseconds (ignored when `debounce` is set)
+     * @default 0 (write on every change)
+     */
+    throttle?: number;
+    /**
+     * Keeps the store in sync with other tabs persisting under the same name
+     * Remote changes are applied to the local signals without being written back.
+     * @default false
+     */
+    sync?: boolean | CrossTabSyncOptions<TState>;
+    /**
+     * The version of the persisted state shape. Bump it whenever the shape changes and
+     * provide a `migrate` function to upgrade data saved by older versions.
+     * @default 0
+     */
+    version?: number;
+    /**
+     * Upgrades state persisted at an older version to the current shape
+     * Throwing (or returning nothing) makes the plugin fall back to `initialState`.
+     * See `chainMigrations` for building this from per-version steps.
+     *
+     * @param persisted The state as it was stored
+     * @param fromVersion The version the state was stored at
+     */
+    migrate?: (persisted: any, fromVersion: number) => Partial<TState>;
+    /**
+     * Called when loading, migrating or saving the persisted state fails
+     * @default logs the error with console.error
+     */
+    onError?: (error: unknown, phase: PersistencePhase) => void;
+    /**
+     * Called once the stored state has been applied to the store (or failed to load)
+     * With a synchronous adapter this happens while the store is being created.
+     */
+    onRehydrated?: (state: TState, error?: unknown) => void;
+    /**
+     * What happens to actions called before an asynchronous adapter finished hydrating
+     * - `queue`: the call is deferred and replayed, in order, once hydration completes
+     * - `drop`: the call is ignored
+     * - `run`: the call runs right away; hydrated values then overwrite the keys they contain
+     * Queued and dropped calls are reported to middleware as cancelled. They return a promise
+     * instead of the action's result: a queued call's promise settles with the replayed call (and
+     * rejects if the store is disposed first), a dropped call's promise rejects.
+     * @default "queue"
+     */
+    actionsBeforeHydration?: "queue" | "drop" | "run";
+    /**
+     * Optional serialization function
+     * @default JSON.stringify
+     */
+    serialize?: (value: PersistedState<TState>) => string;
+    /**
+     * Optional deserialization function
+     * @default JSON.parse
+     */
+    deserialize?: (value: string) => PersistedState<TState>;
+}
+
+/**
+ * Builds a `migrate` function out of per-version migration steps
+ * Each step upgrades the state saved at the previous version to the version it's keyed by,
+ * and steps run in ascending order starting after the stored version.
+ *
+ * @example
+ * localStoragePlugin(config, {
+ *   name: "productListStore",
+ *   version: 2,
+ *   migrate: chainMigrations({
+ *     1: (state) => ({ ...state, sortBy: state.orderBy }),
+ *     2: (state) => ({ ...state, products: state.products.map(toProductV2) }),
+ *   }),
+ * });
+ */
+export function chainMigrations<TState extends Record<string, any>>(
+    steps: Record<number, (state: any) => any>
+): (persisted: any, fromVersion: number) => Partial<TState> {
+    const versions = Object.keys(steps)
+        .map(Number)
+        .sort((a, b) => a - b);
+    return (persisted, fromVersion) =>
+        versions
+            .filter((version) => version > fromVersion)
+            .reduce((state, version) => steps[version](state), persisted);
+}
+
+const isPersistedState = (value: unknown): value is PersistedState<any> =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PersistedState<any>).version === "number" &&
+    typeof (value as PersistedState<any>).state === "object";
+
+/**
+ * An action call held back until the store has hydrated, settled with what the action returns
+ */
+interface QueuedCall {
+    name: string;
+    args: any[];
+    resolve: (result: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+const defaultOnError = (error: unknown, phase: PersistencePhase) => {
+    console.error(
+        `Failed to ${phase} state ${phase === "save" ? "to" : "from"} storage:`,
+        error instanceof Error ? error.message : String(error)
+    );
+};
+
+/**
+ * The persistence API added to the store as `store.persist`
+ */
+export interface PersistControls {
+    /**
+     * True once the stored state has been applied (immediately for synchronous adapters)
+     */
+    hasHydrated: ReadonlySignal<boolean>;
+    /**
+     * The error that occurred while loading or migrating the stored state, if any
+     */
+    hydrationError: ReadonlySignal<unknown>;
+    /**
+     * Reads the stored state again and applies it to the store
+     */
+    rehydrate: () => Promise<void>;
+    /**
+     * Writes any pending (debounced or throttled) change immediately
+     */
+    flush: () => void;
+    /**
+     * Removes the stored state. The store itself is left untouched.
+     */
+    clear: () => Promise<void>;
+}
+
+/**
+ * Members added to a store created from a config wrapped with `persistPlugin`
+ */
+export type WithPersist = { persist: PersistControls };
+
+/**
+ * Creates a middleware that persists store state through a storage adapter
+ *
+ * Synchronous adapters (localStorage, sessionStorage, in-memory) are read before the store is
+ * created, so the store starts out hydrated. Asynchronous adapters (IndexedDB) hydrate after
+ * creation; `store.persist.hasHydrated` flips to true and `onRehydrated` is called once they have.
+ * Nothing is written back to storage before hydration finishes.
+ *
+ * Outside the browser (e.g. during server-side rendering) the built-in adapters behave like empty
+ * storage and cross-tab sync is skipped, so the plugin is a no-op there.
+ *
+ * @example
+ * const store = createStore(
+ *   persistPlugin({
+ *     initialState: { products: [] }
+ *   }, { name: "product-store", storage: indexedDBAdapter() })
+ * ) as Store<State> & WithPersist;
+ *
+ * effect(() => {
+ *   if (store.persist.hasHydrated.value) {
+ *     console.log("products restored", store.products.value);
+ *   }
+ * });
+ */
+export function persistPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: PersistOptions<TState>
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const {
+        name,
+        merge = true,
+        include,
+        exclude = [],
+        partialize,
+        debounce = 0,
+        throttle = 0,
+        sync = false,
+        version = 0,
+        migrate,
+        onError = defaultOnError,
+        onRehydrated,
+        actionsBeforeHydration = "queue",
+        serialize = JSON.stringify as (value: PersistedState<TState>) => string,
+        deserialize = JSON.parse as (value: string) => PersistedState<TState>,
+    } = options;
+    // tests may swap the storage out (see `createTestStore`)
+    const storage = storageOverride() ?? options.storage;
+
+    const isPersistedKey = (key: string) =>
+        (!include || include.includes(key as keyof TState)) &&
+        !exclude.includes(key as keyof TState);
+
+    const selectPersisted = (state: TState): Partial<TState> => {
+        if (partialize) {
+            return partialize(state);
+        }
+        const selected: Partial<TState> = {};
+        for (const key in state) {
+            if (isPersistedKey(key)) {
+                selected[key] = state[key];
+            }
+        }
+        return selected;
+    };
+
+    /**
+     * Deserializes, migrates and filters a raw stored value
+     * Returns an empty state and the error when anything goes wrong, so callers fall back to
+     * initialState.
+     */
+    const restore = (stored: string): { state: Partial<TState>; error?: unknown } => {
+        let persisted: PersistedState<TState>;
+        try {
+            const parsed: unknown = deserialize(stored);
+            // data written before versioning was introduced is the bare state, treat it as version 0
+            persisted = isPersistedState(parsed)
+                ? parsed
+                : { state: parsed as Partial<TState>, version: 0 };
+        } catch (error: unknown) {
+            onError(error, "load");
+            return { state: {}, error };
+        }
+
+        // Upgrade older data to the current version, falling back to initialState if that fails
+        let restored: Partial<TState>;
+        try {
+            if (persisted.version === version) {
+                restored = persisted.state;
+            } else if (persisted.version > version) {
+                throw new Error(
+                    `Stored version ${persisted.version} is newer than current version ${version}`
+                );
+            } else if (!migrate) {
+                throw new Error(
+                    `No migrate function to upgrade stored version ${persisted.version} to ${version}`
+                );
+            } else {
+                restored = migrate(persisted.state, persisted.version);
+                if (!restored || typeof restored !== "object") {
+                    throw new Error(
+                        `Migration from version ${persisted.version} returned no state`
+                    );
+                }
+            }
+        } catch (error: unknown) {
+            onError(error, "migrate");
+            return { state: {}, error };
+        }
+
+        // ignore keys that are no longer persisted (e.g. data saved before a key was excluded)
+        if (!partialize) {
+            for (const key in restored) {
+                if (!isPersistedKey(key)) {
+                    delete restored[key];
+                }
+            }
+        }
+        return { state: restored };
+    };
+
+    // Merge or replace the state with stored data (when replacing, keys missing from storage are cleared)
+    const toApply = (storedState: Partial<TState>): Partial<TState> => {
+        if (merge) {
+            return storedState;
+        }
+        const replaced: Partial<TState> = {};
+        for (const key in config.initialState) {
+            replaced[key] = storedState[key];
+        }
+        return replaced;
+    };
+
+    // Try to load state from storage. Synchronous adapters hydrate right here, before the store
+    // exists: the stored values are handed to createStore as hydratedState, so initialState stays
+    // the pristine default used by resetState.
+    let initialRead: string | null | Promise<string | null> = null;
+    let initialError: unknown;
+    try {
+        initialRead = storage.getItem(name);
+    } catch (error: unknown) {
+        onError(error, "load");
+        initialError = error;
+    }
+    const isAsync = isPromise(initialRead);
+    let storedState: Partial<TState> = {};
+    if (!isPromise(initialRead) && initialRead) {
+        ({ state: storedState, error: initialError } = restore(initialRead));
+    }
+    const hydratedState: Partial<TState> | undefined =
+        isAsync || initialError || !initialRead
+            ? config.hydratedState
+            : { ...config.hydratedState, ...toApply(storedState) };
+
+    // the hydration of each store created from this config, including the actions called on it
+    // before an asynchronous hydration finished
+    const hydrations = new WeakMap<
+        object,
+        { hasHydrated: Signal<boolean>; queued: QueuedCall[] }
+    >();
+
+    // Hold back (or drop) actions called before an asynchronous hydration finished
+    const withMiddleware =
+        isAsync && actionsBeforeHydration !== "run"
+            ? addActionMiddleware(config, {
+                  before: (call) => {
+                      const hydration = hydrations.get(call.store);
+                      if (!hydration || hydration.hasHydrated.peek()) {
+                          return;
+                      }
+                      const result =
+                          actionsBeforeHydration === "queue"
+                              ? new Promise((resolve, reject) => {
+                                    hydration.queued.push({
+                                        name: call.name,
+                                        args: call.args,
+                                        resolve,
+                                        reject,
+                                    });
+                                })
+                              : Promise.reject(
+                                    new Error(
+                                        `Action '${call.name}' was dropped because '${name}' hasn't hydrated yet`
+                                    )
+                                );
+                      // callers that ignore the result (as with most synchronous actions) don't
+                      // get an unhandled rejection
+                      result.catch(() => {});
+                      call.result = result;
+                      return false;
+                  },
+              })
+            : config;
+
+    // Create a new onStoreCreated function that calls the original one if it exists
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        if ("persist" in store) {
+            throw new Error("Persist key 'persist' conflicts with an existing store key");
+        }
+
+        const hasHydrated = signal(!isAsync);
+        const hydrationError = signal<unknown>(initialError);
+        const queued: QueuedCall[] = [];
+        hydrations.set(store, { hasHydrated, queued });
+
+        // Set up storage synchronization
+        let pending: Partial<TState> | undefined;
+        let lastWritten: string | undefined;
+        let lastWriteAt = -Infinity;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        // the persisted state this tab last wrote or received, used as the base for conflict resolution
+        let synced: Partial<TState> = selectPersisted({ ...config.initialState, ...hydratedState });
+        let channel: BroadcastChannel | undefined;
+
+        // serialization happens here rather than in the effect, so debounced changes cost nothing
+        const flush = () => {
+            clearTimeout(timer);
+            timer = undefined;
+            if (!pending) {
+                return;
+            }
+            const stateToPersist = pending;
+            pending = undefined;
+            try {
+                const serialized = serialize({ state: stateToPersist, version });
+                if (serialized !== lastWritten) {
+                    const written = storage.setItem(name, serialized);
+                    if (isPromise(written)) {
+                        written.catch((error: unknown) => onError(error, "save"));
+                    }
+                    lastWritten = serialized;
+                    synced = stateToPersist;
+                    channel?.postMessage(serialized);
+                }
+                lastWriteAt = Date.now();
+            } catch (error: unknown) {
+                onError(error, "save");
+            }
+        };
+
+        const scheduleSave = (stateToPersist: Partial<TState>) => {
+            pending = stateToPersist;
+            if (debounce > 0) {
+                clearTimeout(timer);
+                timer = setTimeout(flush, debounce);
+            } else if (throttle > 0) {
+                if (!timer) {
+                    timer = setTimeout(flush, Math.max(0, lastWriteAt + throttle - Date.now()));
+                }
+            } else {
+                flush();
+            }
+        };
+
+        const disposeEffect = effect(() => {
+            // only the signals read while selecting the persisted keys are tracked
+            const state = {} as TState;
+            for (const key in config.initialState) {
+                if (partialize || isPersistedKey(key)) {
+                    state[key] = store[key].value;
+                }
+            }
+            // writing before hydration would clobber the stored state with the defaults
+            if (hasHydrated.value) {
+                scheduleSave(selectPersisted(state));
+            }
+        });
+
+        const finishHydration = (error?: unknown) => {
+            hydrationError.value = error;
+            hasHydrated.value = true;
+            if (onRehydrated) {
+                onRehydrated(store.getStateSnapshot(), error);
+            }
+            for (const { name: actionName, args, resolve, reject } of queued.splice(0)) {
+                try {
+                    resolve((store.actions[actionName] as (...a: any[]) => unknown)(...args));
+                } catch (error: unknown) {
+                    reject(error);
+                }
+            }
+        };
+
+        let disposed = false;
+        const hydrate = async (read: string | null | Promise<string | null>) => {
+            let stored: string | null;
+            try {
+                stored = await read;
+                if (disposed) {
+                    return;
+                }
+            } catch (error: unknown) {
+                onError(error, "load");
+                finishHydration(error);
+                return;
+            }
+            const { state: restored, error } = stored ? restore(stored) : { state: {} };
+            if (stored && !error) {
+                // keep the write from echoing straight back to storage
+                lastWritten = stored;
+                synced = restored;
+                store.setState(toApply(restored));
+            }
+            finishHydration(error);
+        };
+
+        const persist: PersistControls = {
+            hasHydrated,
+            hydrationError,
+            rehydrate: () => {
+                try {
+                    return hydrate(storage.getItem(name));
+                } catch (error: unknown) {
+                    return hydrate(Promise.reject(error));
+                }
+            },
+            flush,
+            clear: async () => {
+                pending = undefined;
+                lastWritten = undefined;
+                await storage.removeItem(name);
+            },
+        };
+        Object.assign(store, { persist });
+
+        let unsubscribeStorage: (() => void) | undefined;
+        // there are no other tabs to sync with outside the browser (e.g. during server-side rendering)
+        if (sync && typeof window !== "undefined") {
+            const { transport = "storage", conflict = "last-write-wins" } =
+                sync === true ? {} : sync;
+            const resolve: ConflictResolver<TState> =
+                conflict === "last-write-wins"
+                    ? lastWriteWins
+                    : conflict === "merge"
+                      ? mergeChangedKeys
+                      : conflict;
+
+            const applyRemote = (serialized: string) => {
+                if (serialized === lastWritten) {
+                    return;
+                }
+                const { state: remote } = restore(serialized);
+                const local = selectPersisted(store.getStateSnapshot());
+                const next = resolve(local, remote, synced);
+                // marking the remote value as written keeps the effect from echoing it back
+                lastWritten = serialized;
+                synced = remote;
+                store.setState(next);
+            };
+
+            if (transport === "broadcast-channel") {
+                channel = new BroadcastChannel(`beacon:${name}`);
+                channel.onmessage = (event: MessageEvent<string>) => applyRemote(event.data);
+            } else if (storage.subscribe) {
+                unsubscribeStorage = storage.subscribe(name, applyRemote);
+            } else {
+                throw new Error(
+                    `Storage for '${name}' can't report changes, use the "broadcast-channel" transport`
+                );
+            }
+        }
+
+        // don't lose a pending write when the page goes away
+        if (typeof window !== "undefined" && (debounce > 0 || throttle > 0)) {
+            window.addEventListener("pagehide", flush);
+            window.addEventListener("beforeunload", flush);
+        }
+
+        // Call the original onStoreCreated if it exists
+        const cleanupOriginal = originalOnStoreCreated ? originalOnStoreCreated(store) : undefined;
+
+        if (isAsync) {
+            hydrate(initialRead);
+        } else if (onRehydrated) {
+            onRehydrated(store.getStateSnapshot(), initialError);
+        }
+
+        return () => {
+            disposed = true;
+            for (const { name: actionName, reject } of queued.splice(0)) {
+                reject(
+                    new Error(
+                        `Action '${actionName}' was dropped because '${name}' was disposed before it hydrated`
+                    )
+                );
+            }
+            // write whatever is still pending before tearing down
+            flush();
+            disposeEffect();
+            if (unsubscribeStorage) {
+                unsubscribeStorage();
+            }
+            if (channel) {
+                channel.close();
+            }
+            if (typeof window !== "undefined" && (debounce > 0 || throttle > 0)) {
+                window.removeEventListener("pagehide", flush);
+                window.removeEventListener("beforeunload", flush);
+            }
+            if (cleanupOriginal) {
+                cleanupOriginal();
+            }
+        };
+    };
+
+    return { ...withMiddleware, hydratedState, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `persistPlugin` as a plugin object, for `compose`
+ * The store gets `store.persist` (see `PersistControls`).
+ */
+export function createPersistMiddleware<TState extends Record<string, any> = any>(
+    options: PersistOptions<TState>
+): StorePlugin<TState, WithPersist> {
+    return { name: "persist", transform: (config) => persistPlugin(config, options) };
+}
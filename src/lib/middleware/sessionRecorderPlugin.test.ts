@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { sessionRecorderPlugin } from "./sessionRecorderPlugin";
+
+describe("sessionRecorderPlugin", () => {
+    let store: any;
+
+    const sortConfig = (options = {}) =>
+        sessionRecorderPlugin(
+            {
+                initialState: { sortBy: "name", sortDirection: "asc" },
+                actions: {
+                    setSortBy: (state: any, sortBy: string) => {
+                        state.sortBy.value = sortBy;
+                    },
+                    setSortDirection: (state: any, direction: string) => {
+                        state.sortDirection.value = direction;
+                    },
+                    sortByPriceDesc(this: any) {
+                        this.actions.setSortBy("price");
+                        this.actions.setSortDirection("desc");
+                    },
+                    setSortByLater: async (state: any, sortBy: string) => {
+                        await Promise.resolve();
+                        state.sortBy.value = sortBy;
+                    },
+                    async sortByPriceLater(this: any) {
+                        await Promise.resolve();
+                        this.actions.setSortBy("price");
+                    },
+                    fail: () => {
+                        throw new Error("nope");
+                    },
+                },
+            },
+            { name: "sort", autoStart: true, ...options }
+        );
+
+    const createSortStore = (options = {}) => createStore(sortConfig(options));
+
+    beforeEach(() => {
+        store = createSortStore();
+    });
+
+    afterEach(() => {
+        store.dispose();
+    });
+
+    it("should record each call with its arguments and resulting state", () => {
+        store.actions.setSortBy("price");
+
+        expect(store.session.getSession()).toEqual({
+            version: 1,
+            name: "sort",
+            startedAt: expect.any(Number),
+            initialState: { sortBy: "name", sortDirection: "asc" },
+            steps: [
+                {
+                    action: "setSortBy",
+                    args: ["price"],
+                    timestamp: expect.any(Number),
+                    stateAfter: { sortBy: "price", sortDirection: "asc" },
+                },
+            ],
+        });
+    });
+
+    it("should not record calls actions make to other actions", () => {
+        store.actions.sortByPriceDesc();
+
+        expect(store.session.getSession().steps.map((step: any) => step.action)).toEqual([
+            "sortByPriceDesc",
+        ]);
+    });
+
+    it("should not record calls an async action makes after an await", async () => {
+        await store.actions.sortByPriceLater();
+
+        const { steps } = store.session.getSession();
+        expect(steps.map((step: any) => step.action)).toEqual(["sortByPriceLater"]);
+        expect(steps[0].stateAfter.sortBy).toBe("price");
+    });
+
+    it("should record what an action threw", () => {
+        expect(() => store.actions.fail()).toThrow("nope");
+
+        expect(store.session.getSession().steps[0].error).toBe("nope");
+    });
+
+    it("should snapshot async actions once they settle", async () => {
+        await store.actions.setSortByLater("qty");
+
+        expect(store.session.getSession().steps[0].stateAfter.sortBy).toBe("qty");
+    });
+
+    it("should start over from the current state", () => {
+        store.actions.setSortBy("price");
+        store.session.start();
+        store.actions.setSortDirection("desc");
+
+        const session = JSON.parse(store.session.exportSession());
+        expect(session.initialState).toEqual({ sortBy: "price", sortDirection: "asc" });
+        expect(session.steps).toHaveLength(1);
+    });
+
+    it("should stop recording once full", () => {
+        store.dispose();
+        store = createSortStore({ maxSteps: 1 });
+
+        store.actions.setSortBy("price");
+        store.actions.setSortBy("qty");
+
+        expect(store.session.getSession().steps).toHaveLength(1);
+        expect(store.session.isRecording.value).toBe(false);
+    });
+
+    it("should not start recording by default", () => {
+        store.dispose();
+        store = createSortStore({ autoStart: undefined });
+
+        store.actions.setSortBy("price");
+
+        expect(store.session.isRecording.value).toBe(false);
+        expect(store.session.getSession().steps).toEqual([]);
+    });
+
+    it("should record a separate session for each store created from the same config", () => {
+        const config = sortConfig();
+        const other: any = createStore(config);
+        store.dispose();
+        store = createStore(config);
+
+        store.actions.setSortBy("price");
+
+        expect(store.session.getSession().steps).toHaveLength(1);
+        expect(other.session.getSession().steps).toEqual([]);
+        other.dispose();
+    });
+});
@@ -0,0 +1,276 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ReadonlySignal, Signal, signal } from "@preact/signals-react";
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+import { isPromise } from "../isPromise";
+
+/**
+ * A single recorded action call
+ */
+export interface RecordedStep<TState = any> {
+    /**
+     * The name of the action that was called
+     */
+    action: string;
+    /**
+     * The arguments the action was called with (after `before` hooks rewrote them)
+     */
+    args: unknown[];
+    /**
+     * When the action was called, in milliseconds since the epoch
+     */
+    timestamp: number;
+    /**
+     * Snapshot of the state once the action finished (for async actions, once they settled)
+     */
+    stateAfter: TState;
+    /**
+     * The message of the error the action threw or rejected with, if any
+     */
+    error?: string;
+}
+
+/**
+ * A recorded session: the state the recording started from plus every action call made since.
+ * Sessions are plain JSON, so they can be attached to a bug report and replayed with
+ * `replaySession`.
+ */
+export interface RecordedSession<TState = any> {
+    version: 1;
+    /**
+     * The name given in the recorder options, to tell sessions of different stores apart
+     */
+    name?: string;
+    /**
+     * When the recording started, in milliseconds since the epoch
+     */
+    startedAt: number;
+    /**
+     * Snapshot of the state when the recording started
+     */
+    initialState: TState;
+    steps: RecordedStep<TState>[];
+}
+
+export interface SessionRecorderOptions {
+    /**
+     * Stored in the session, to tell sessions of different stores apart
+     */
+    name?: string;
+    /**
+     * Maximum number of steps to keep. Once reached, recording stops (dropping the oldest steps
+     * would leave the session without a matching starting snapshot).
+     * @default 1000
+     */
+    maxSteps?: number;
+    /**
+     * Whether to start recording as soon as the store is created
+     * Every step keeps a snapshot of the state, so leave it off where sessions aren't exported and
+     * call `store.session.start()` when needed.
+     * @default false
+     */
+    autoStart?: boolean;
+}
+
+/**
+ * The recording API added to the store as `store.session`
+ */
+export interface SessionRecorderControls<TState = any> {
+    /**
+     * True while action calls are being recorded
+     */
+    isRecording: ReadonlySignal<boolean>;
+    /**
+     * Starts a new recording from the current state, dropping the steps recorded so far
+     */
+    start: () => void;
+    /**
+     * Stops recording, keeping the steps recorded so far
+     */
+    stop: () => void;
+    /**
+     * Returns the session recorded so far
+     */
+    getSession: () => RecordedSession<TState>;
+    /**
+     * Returns the session recorded so far as a JSON string, ready to be saved to a file
+     */
+    exportSession: () => string;
+}
+
+/**
+ * Members added to a store created from a config wrapped with `sessionRecorderPlugin`
+ */
+export type WithSessionRecorder<TState = any> = { session: SessionRecorderControls<TState> };
+
+/**
+ * Creates a middleware that records every action call together with the state it started from,
+ * so the session can be exported as JSON and replayed later with `replaySession`
+ *
+ * Only calls made through `store.actions` from outside the store are recorded: calls actions
+ * make to other actions (through `this.actions`, also after an `await`) are replayed by the
+ * outer action, and vetoed calls never ran. Writes made outside of actions (`setState`,
+ * hydration) are not recorded, and arguments are expected to be JSON-serializable.
+ * Each store created from the wrapped config records its own session.
+ *
+ * @example
+ * const store = createStore(
+ *   sessionRecorderPlugin({
+ *     initialState: { sortBy: "name" },
+ *     actions: { setSortBy: (state, sortBy: string) => { state.sortBy.value = sortBy } },
+ *   }, { name: "productList" })
+ * ) as Store<State, {}, Actions> & WithSessionRecorder<State>;
+ *
+ * store.actions.setSortBy("price");
+ * downloadFile("session.json", store.session.exportSession());
+ */
+export function sessionRecorderPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: SessionRecorderOptions = {}
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const { name, maxSteps = 1000, autoStart = false } = options;
+
+    // the middleware is shared by every store created from the config, the recording is not
+    const recorders = new WeakMap<
+        object,
+        {
+            isRecording: Signal<boolean>;
+            session: RecordedSession<TState>;
+            // how many action calls are running, for actions calling `store.actions` directly
+            depth: number;
+        }
+    >();
+
+    const errorMessage = (error: unknown) =>
+        error instanceof Error ? error.message : String(error);
+
+    const withMiddleware = addActionMiddleware(config, {
+        around: ({ store }, next) => {
+            const recorder = recorders.get(store);
+            if (!recorder) {
+                return next();
+            }
+            recorder.depth++;
+            try {
+                return next();
+            } finally {
+                recorder.depth--;
+            }
+        },
+        after: ({ name: action, args, result, error, cancelled, store, parent }) => {
+            const recorder = recorders.get(store);
+            if (!recorder?.isRecording.peek() || recorder.depth > 0 || parent || cancelled) {
+                return;
+            }
+            const { session } = recorder;
+            if (session.steps.length >= maxSteps) {
+                recorder.isRecording.value = false;
+                return;
+            }
+            const getSnapshot = () => store.getStateSnapshot() as TState;
+
+            const step: RecordedStep<TState> = {
+                action,
+                args: [...args],
+                timestamp: Date.now(),
+                // read the store rather than `stateAfter`, so fixes made by other `after` hooks
+                // (e.g. validation falling back to a valid value) are part of the snapshot
+                stateAfter: getSnapshot(),
+            };
+            if (error !== undefined) {
+                step.error = errorMessage(error);
+            }
+            session.steps.push(step);
+
+            // async actions keep writing once they resolve, so snapshot again once they settle
+            if (isPromise(result)) {
+                result.then(
+                    () => {
+                        step.stateAfter = getSnapshot();
+                    },
+                    (err: unknown) => {
+                        step.stateAfter = getSnapshot();
+                        step.error = errorMessage(err);
+                    }
+                );
+            }
+        },
+    });
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        if ("session" in store) {
+            throw new Error("Session recorder key 'session' conflicts with an existing store key");
+        }
+
+        const newSession = (): RecordedSession<TState> => ({
+            version: 1,
+            name,
+            startedAt: Date.now(),
+            initialState: store.getStateSnapshot(),
+            steps: [],
+        });
+        const recorder = { isRecording: signal(false), session: newSession(), depth: 0 };
+        recorders.set(store, recorder);
+
+        const start = () => {
+            recorder.session = newSession();
+            recorder.isRecording.value = true;
+        };
+
+        const getSession = (): RecordedSession<TState> => ({
+            ...recorder.session,
+            steps: recorder.session.steps.map((step) => ({ ...step })),
+        });
+
+        const controls: SessionRecorderControls<TState> = {
+            isRecording: recorder.isRecording,
+            start,
+            stop: () => {
+                recorder.isRecording.value = false;
+            },
+            getSession,
+            exportSession: () => JSON.stringify(getSession()),
+        };
+        Object.assign(store, { session: controls });
+
+        // Call the original onStoreCreated if it exists (its cleanup runs on dispose)
+        const cleanup = originalOnStoreCreated?.(store);
+
+        // start after the other plugins had a chance to hydrate the store
+        if (autoStart) {
+            start();
+        }
+        return cleanup;
+    };
+
+    return { ...withMiddleware, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `sessionRecorderPlugin` as a plugin object, for `compose`
+ * The store gets `store.session` (see `SessionRecorderControls`).
+ */
+export function createSessionRecorderMiddleware<TState extends Record<string, any> = any>(
+    options: SessionRecorderOptions = {}
+): StorePlugin<TState, WithSessionRecorder<TState>> {
+    return {
+        name: "sessionRecorder",
+        transform: (config) => sessionRecorderPlugin(config, options),
+    };
+}
@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { IDBFactory } from "fake-indexeddb";
+import { indexedDBAdapter } from "./storageAdapters";
+
+describe("indexedDBAdapter", () => {
+    beforeEach(() => {
+        // jsdom has no IndexedDB; every test gets an empty one
+        (window as any).indexedDB = new IDBFactory();
+    });
+
+    afterEach(() => {
+        delete (window as any).indexedDB;
+    });
+
+    it("should read back what was written, until it is removed", async () => {
+        const storage = indexedDBAdapter();
+        expect(await storage.getItem("cart")).toBeNull();
+
+        await storage.setItem("cart", "[1,2]");
+        expect(await storage.getItem("cart")).toBe("[1,2]");
+        expect(await indexedDBAdapter().getItem("cart")).toBe("[1,2]");
+
+        await storage.removeItem("cart");
+        expect(await storage.getItem("cart")).toBeNull();
+    });
+
+    describe("when adapters share a database with different object stores", () => {
+        let products: ReturnType<typeof indexedDBAdapter>,
+            orders: ReturnType<typeof indexedDBAdapter>;
+
+        beforeEach(async () => {
+            products = indexedDBAdapter({ dbName: "shop", storeName: "products" });
+            await products.setItem("list", "products");
+            orders = indexedDBAdapter({ dbName: "shop", storeName: "orders" });
+            await orders.setItem("list", "orders");
+        });
+
+        it("should keep each adapter's items apart", async () => {
+            expect(await products.getItem("list")).toBe("products");
+            expect(await orders.getItem("list")).toBe("orders");
+        });
+
+        it("should create the missing object store in a new version", async () => {
+            const database = await new Promise<IDBDatabase>((resolve) => {
+                const request = window.indexedDB.open("shop");
+                request.onsuccess = () => resolve(request.result);
+            });
+            expect(database.version).toBe(2);
+            expect([...database.objectStoreNames]).toEqual(["orders", "products"]);
+            database.close();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * The storage interface used by `persistPlugin`
+ *
+ * Reads and writes may be synchronous (localStorage) or return promises (IndexedDB).
+ * Stores backed by a synchronous adapter are hydrated before they are created; stores backed by
+ * an asynchronous adapter hydrate once the read resolves.
+ */
+export interface StorageAdapter {
+    /**
+     * Reads the raw value stored under `key`, or null when there is none
+     */
+    getItem: (key: string) => string | null | Promise<string | null>;
+    /**
+     * Writes the raw value under `key`
+     */
+    setItem: (key: string, value: string) => void | Promise<void>;
+    /**
+     * Removes whatever is stored under `key`
+     */
+    removeItem: (key: string) => void | Promise<void>;
+    /**
+     * Optional: notifies about changes to `key` made by another context (e.g. another tab)
+     *
+     * @returns A function that stops listening
+     */
+    subscribe?: (key: string, listener: (value: string) => void) => () => void;
+}
+
+/**
+ * Adapts a Web Storage area (localStorage, sessionStorage) to the StorageAdapter interface
+ * The area is resolved lazily on every call, so creating the adapter is safe where it doesn't exist.
+ * Where it doesn't (e.g. during server-side rendering) the adapter behaves like empty storage:
+ * reads return null and writes are ignored.
+ *
+ * @param getStorage Returns the storage area to use, or undefined when there is none
+ */
+export function webStorageAdapter(getStorage: () => Storage | undefined): StorageAdapter {
+    return {
+        getItem: (key) => getStorage()?.getItem(key) ?? null,
+        setItem: (key, value) => getStorage()?.setItem(key, value),
+        removeItem: (key) => getStorage()?.removeItem(key),
+        subscribe: (key, listener) => {
+            if (typeof window === "undefined") {
+                return () => {};
+            }
+            const onStorage = (event: StorageEvent) => {
+                if (event.key === key && event.newValue && event.storageArea === getStorage()) {
+                    listener(event.newValue);
+                }
+            };
+            window.addEventListener("storage", onStorage);
+            return () => window.removeEventListener("storage", onStorage);
+        },
+    };
+}
+
+/**
+ * Stores state in `window.localStorage`
+ */
+export const localStorageAdapter = (): StorageAdapter =>
+    webStorageAdapter(() => (typeof window !== "undefined" ? window.localStorage : undefined));
+
+/**
+ * Stores state in `window.sessionStorage`
+ */
+export const sessionStorageAdapter = (): StorageAdapter =>
+    webStorageAdapter(() => (typeof window !== "undefined" ? window.sessionStorage : undefined));
+
+/**
+ * Stores state in a plain in-memory map. Useful for tests and non-browser environments.
+ *
+ * @param initialItems Raw values to start with, keyed by storage key
+ */
+export function memoryStorageAdapter(
+    initialItems: Record<string, string> = {}
+): StorageAdapter & { items: Map<string, string> } {
+    const items = new Map(Object.entries(initialItems));
+    return {
+        items,
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => {
+            items.set(key, value);
+        },
+        removeItem: (key) => {
+            items.delete(key);
+        },
+    };
+}
+
+export interface IndexedDBAdapterOptions {
+    /**
+     * The database to store state in
+     * @default "beacon"
+     */
+    dbName?: string;
+    /**
+     * The object store within the database
+     * @default "state"
+     */
+    storeName?: string;
+}
+
+/**
+ * Stores state in IndexedDB. All operations are asynchronous, so stores using this adapter
+ * hydrate after they are created (see `store.persist.hasHydrated`).
+ * Several adapters may share a database with different object stores: an adapter whose object
+ * store is missing upgrades the database to the next version to create it.
+ * Where IndexedDB doesn't exist (e.g. during server-side rendering) the adapter behaves like empty
+ * synchronous storage, so the store starts out hydrated instead of waiting forever.
+ */
+export function indexedDBAdapter(options: IndexedDBAdapterOptions = {}): StorageAdapter {
+    const { dbName = "beacon", storeName = "state" } = options;
+
+    // opens the current version, or the given one to upgrade to
+    const open = (version?: number): Promise<IDBDatabase> =>
+        new Promise((resolve, reject) => {
+            const request = window.indexedDB.open(dbName, version);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName);
+                }
+            };
+            request.onsuccess = () => {
+                const database = request.result;
+                if (!database.objectStoreNames.contains(storeName)) {
+                    database.close();
+                    resolve(open(database.version + 1));
+                    return;
+                }
+                // step aside when another adapter upgrades the database, and reopen on next use
+                database.onversionchange = () => {
+                    database.close();
+                    db = undefined;
+                };
+                resolve(database);
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+    let db: Promise<IDBDatabase> | undefined;
+    const openDb = () => {
+        if (!db) {
+            db = open();
+            // let the next operation try again
+            db.catch(() => (db = undefined));
+        }
+        return db;
+    };
+
+    const run = async <T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> => {
+        const database = await openDb();
+        return new Promise<T>((resolve, reject) => {
+            const request = operation(database.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    };
+
+    if (typeof window === "undefined" || !window.indexedDB) {
+        return {
+            getItem: () => null,
+            setItem: () => {},
+            removeItem: () => {},
+        };
+    }
+
+    return {
+        getItem: async (key) =>
+            (await run<string | undefined>("readonly", (s) => s.get(key))) ?? null,
+        setItem: async (key, value) => {
+            await run("readwrite", (s) => s.put(value, key));
+        },
+        removeItem: async (key) => {
+            await run("readwrite", (s) => s.delete(key));
+        },
+    };
+}
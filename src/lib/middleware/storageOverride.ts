@@ -0,0 +1,28 @@
+import { StorageAdapter } from "./storageAdapters";
+
+// the storage persistence plugins use instead of their own while `withStorage` builds a config
+let override: StorageAdapter | undefined;
+
+/**
+ * Builds store configs with every persistence plugin using the given storage instead of its own
+ * The plugins keep that storage for the stores created from the configs. Used by
+ * `createTestStore` to keep tests off the browser's storage.
+ *
+ * @param storage The storage to persist to
+ * @param build Builds the configs (e.g. creates a store from a store definition)
+ * @returns What `build` returned
+ */
+export function withStorage<T>(storage: StorageAdapter, build: () => T): T {
+    const previous = override;
+    override = storage;
+    try {
+        return build();
+    } finally {
+        override = previous;
+    }
+}
+
+/**
+ * Returns the storage set by `withStorage`, if a config is being built within it
+ */
+export const storageOverride = (): StorageAdapter | undefined => override;
@@ -0,0 +1,116 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createTelemetryClient } from "./telemetryClient";
+import { memoryStorageAdapter } from "./storageAdapters";
+
+describe("createTelemetryClient", () => {
+    let client: any, transport: any, storage: ReturnType<typeof memoryStorageAdapter>;
+
+    const queued = () => JSON.parse(storage.items.get("beacon:telemetry-queue") ?? "[]");
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        transport = { send: jest.fn() };
+        storage = memoryStorageAdapter();
+        client = createTelemetryClient({
+            transport,
+            storage,
+            batchSize: 2,
+            flushInterval: 1000,
+            onError: jest.fn(),
+        });
+    });
+
+    afterEach(() => {
+        client.dispose();
+        jest.useRealTimers();
+    });
+
+    it("should persist tracked events until they are sent", () => {
+        client.track("A", { a: 1 });
+        expect(queued()).toEqual([{ name: "A", payload: { a: 1 }, timestamp: expect.any(Number) }]);
+    });
+
+    it("should send a batch as soon as it is full", async () => {
+        client.track("A");
+        client.track("B");
+        await client.flush();
+        expect(transport.send).toHaveBeenCalledWith([
+            expect.objectContaining({ name: "A" }),
+            expect.objectContaining({ name: "B" }),
+        ]);
+        expect(queued()).toEqual([]);
+    });
+
+    it("should flush on the interval", async () => {
+        client.track("A");
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(transport.send).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run a timer until an event is tracked", () => {
+        expect(jest.getTimerCount()).toBe(0);
+        client.track("A");
+        expect(jest.getTimerCount()).toBe(1);
+    });
+
+    describe("when the transport fails", () => {
+        beforeEach(async () => {
+            transport.send.mockRejectedValueOnce(new Error("offline"));
+            client.track("A");
+            await client.flush();
+        });
+
+        it("should keep the events queued", () => {
+            expect(queued()).toEqual([expect.objectContaining({ name: "A" })]);
+        });
+
+        it("should retry them on the next flush", async () => {
+            await client.flush();
+            expect(transport.send).toHaveBeenCalledTimes(2);
+            expect(queued()).toEqual([]);
+        });
+
+        it("should retry them on the interval", async () => {
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(transport.send).toHaveBeenCalledTimes(2);
+            expect(jest.getTimerCount()).toBe(0);
+        });
+    });
+
+    describe("when events were left over from a previous session", () => {
+        beforeEach(async () => {
+            client.dispose();
+            storage.items.set(
+                "beacon:telemetry-queue",
+                JSON.stringify([{ name: "OLD", payload: null, timestamp: 1 }])
+            );
+            client = createTelemetryClient({ transport, storage });
+            await client.flush();
+        });
+
+        it("should send them", () => {
+            expect(transport.send).toHaveBeenCalledWith([
+                { name: "OLD", payload: null, timestamp: 1 },
+            ]);
+        });
+    });
+
+    it("should still send leftover events restored while a batch is being sent", async () => {
+        client.dispose();
+        let resolveRead!: (value: string) => void, resolveSend!: () => void;
+        storage.getItem = () => new Promise((resolve) => (resolveRead = resolve));
+        transport.send.mockReturnValueOnce(new Promise<void>((resolve) => (resolveSend = resolve)));
+        client = createTelemetryClient({ transport, storage, batchSize: 2 });
+
+        client.track("A");
+        client.track("B");
+        resolveRead(JSON.stringify([{ name: "OLD", payload: null, timestamp: 1 }]));
+        await Promise.resolve();
+        resolveSend();
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(
+            transport.send.mock.calls.map(([events]: any) => events.map((e: any) => e.name))
+        ).toEqual([["A", "B"], ["OLD"]]);
+    });
+});
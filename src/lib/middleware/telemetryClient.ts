@@ -0,0 +1,227 @@
+import { StorageAdapter } from "./storageAdapters";
+import { isPromise } from "../isPromise";
+
+/**
+ * A single telemetry event as queued and handed to the transport
+ */
+export interface TelemetryEvent {
+    /**
+     * The event name (e.g. "SORT_CHANGED")
+     */
+    name: string;
+    /**
+     * Event-specific data
+     */
+    payload: unknown;
+    /**
+     * When the event was tracked (ms since epoch)
+     */
+    timestamp: number;
+}
+
+/**
+ * Delivers batches of events to a backend. Throwing or rejecting marks the batch as failed;
+ * failed events stay queued and are retried on the next flush.
+ */
+export interface TelemetryTransport {
+    send: (events: TelemetryEvent[]) => void | Promise<void>;
+}
+
+export interface TelemetryClientOptions {
+    /**
+     * Delivers the batched events
+     */
+    transport: TelemetryTransport;
+    /**
+     * Maximum number of events per `send` call. Reaching it triggers a flush.
+     * @default 20
+     */
+    batchSize?: number;
+    /**
+     * How long after an event is queued the queue is flushed, in milliseconds
+     * No timer runs while the queue is empty.
+     * @default 10000
+     */
+    flushInterval?: number;
+    /**
+     * Maximum number of events kept while the transport is failing. The oldest are dropped first.
+     * @default 500
+     */
+    maxQueueSize?: number;
+    /**
+     * Where the queue of unsent events is persisted, so events survive reloads and offline periods.
+     * When omitted, the queue only lives in memory.
+     */
+    storage?: StorageAdapter;
+    /**
+     * The key the queue is persisted under
+     * @default "beacon:telemetry-queue"
+     */
+    storageKey?: string;
+    /**
+     * Called when a batch failed to send, or with no events when the queue couldn't be persisted
+     * @default logs the error with console.error
+     */
+    onError?: (error: unknown, events: TelemetryEvent[]) => void;
+}
+
+/**
+ * Queues telemetry events and sends them to the transport in batches
+ */
+export interface TelemetryClient {
+    /**
+     * Adds an event to the queue
+     */
+    track: (name: string, payload?: unknown) => void;
+    /**
+     * Sends all queued events now. Resolves once the queue has been sent (or a batch failed).
+     */
+    flush: () => Promise<void>;
+    /**
+     * Stops the flush timer and page-hide listener
+     */
+    dispose: () => void;
+}
+
+const defaultOnError = (error: unknown) => {
+    console.error(
+        "Failed to send telemetry events:",
+        error instanceof Error ? error.message : String(error)
+    );
+};
+
+/**
+ * Creates a client that batches telemetry events, flushes them `flushInterval` after they are
+ * tracked and when the page is hidden, and keeps failed events in a (optionally persisted) queue
+ * to retry later.
+ *
+ * @example
+ * const telemetryClient = createTelemetryClient({
+ *   transport: { send: (events) => fetch("/telemetry", { method: "POST", body: JSON.stringify(events) }) },
+ *   storage: localStorageAdapter(),
+ * });
+ */
+export function createTelemetryClient(options: TelemetryClientOptions): TelemetryClient {
+    const {
+        transport,
+        batchSize = 20,
+        flushInterval = 10000,
+        maxQueueSize = 500,
+        storage,
+        storageKey = "beacon:telemetry-queue",
+        onError = defaultOnError,
+    } = options;
+
+    let queue: TelemetryEvent[] = [];
+    let inFlight: Promise<void> | undefined;
+
+    const persistQueue = () => {
+        if (!storage) {
+            return;
+        }
+        try {
+            Promise.resolve(storage.setItem(storageKey, JSON.stringify(queue))).catch(
+                (error: unknown) => onError(error, [])
+            );
+        } catch (error: unknown) {
+            onError(error, []);
+        }
+    };
+
+    const sendQueued = async () => {
+        while (queue.length) {
+            const batch = queue.slice(0, batchSize);
+            try {
+                await transport.send(batch);
+            } catch (error: unknown) {
+                // leave the batch queued, it'll be retried on the next flush
+                onError(error, batch);
+                return;
+            }
+            // events restored from storage meanwhile may have been put in front of the batch
+            queue = queue.filter((event) => !batch.includes(event));
+            persistQueue();
+        }
+    };
+
+    const flush = () => {
+        if (!inFlight) {
+            inFlight = sendQueued().finally(() => {
+                inFlight = undefined;
+            });
+        }
+        return inFlight;
+    };
+
+    // started by the first queued event rather than on creation, so a client that never tracks
+    // anything (e.g. during server-side rendering) doesn't keep a timer running
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+    const scheduleFlush = () => {
+        if (timer || disposed) {
+            return;
+        }
+        timer = setTimeout(() => {
+            timer = undefined;
+            // events that failed to send are retried after another interval
+            flush().then(() => {
+                if (queue.length) {
+                    scheduleFlush();
+                }
+            });
+        }, flushInterval);
+    };
+
+    const track = (name: string, payload?: unknown) => {
+        queue = [...queue, { name, payload, timestamp: Date.now() }].slice(-maxQueueSize);
+        persistQueue();
+        if (queue.length >= batchSize) {
+            flush();
+        }
+        scheduleFlush();
+    };
+
+    // pick up events left over from a previous session (the queue may load asynchronously)
+    if (storage) {
+        const restoreQueue = (stored: string | null) => {
+            if (stored) {
+                queue = [...(JSON.parse(stored) as TelemetryEvent[]), ...queue].slice(
+                    -maxQueueSize
+                );
+            }
+            if (queue.length) {
+                scheduleFlush();
+            }
+        };
+        try {
+            const stored = storage.getItem(storageKey);
+            if (isPromise(stored)) {
+                stored.then(restoreQueue).catch((error: unknown) => onError(error, []));
+            } else {
+                restoreQueue(stored);
+            }
+        } catch (error: unknown) {
+            onError(error, []);
+        }
+    }
+
+    const onPageHide = () => {
+        flush();
+    };
+    if (typeof window !== "undefined") {
+        window.addEventListener("pagehide", onPageHide);
+    }
+
+    return {
+        track,
+        flush,
+        dispose: () => {
+            disposed = true;
+            clearTimeout(timer);
+            timer = undefined;
+            if (typeof window !== "undefined") {
+                window.removeEventListener("pagehide", onPageHide);
+            }
+        },
+    };
+}
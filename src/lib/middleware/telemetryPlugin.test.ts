@@ -0,0 +1,84 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { telemetryPlugin } from "./telemetryPlugin";
+
+describe("telemetryPlugin", () => {
+    let store: any, client: any;
+
+    beforeEach(() => {
+        client = { track: jest.fn(), flush: jest.fn(), dispose: jest.fn() };
+        store = createStore(
+            telemetryPlugin(
+                {
+                    initialState: { sortBy: "name", selectedProductId: null as any },
+                    actions: {
+                        setSortBy: (state: any, sortBy: string) => {
+                            state.sortBy.value = sortBy;
+                        },
+                        setSelectedProductId: (state: any, id: string) => {
+                            state.selectedProductId.value = id;
+                        },
+                        fail: () => {
+                            throw new Error("nope");
+                        },
+                        load: async (_state: any, count: number) => count,
+                        failLater: async () => {
+                            throw new Error("later");
+                        },
+                    },
+                },
+                {
+                    client,
+                    actions: {
+                        setSelectedProductId: {
+                            event: "PRODUCT_SELECTED",
+                            payload: ({ args: [id], stateBefore }: any) => ({
+                                id,
+                                prevId: stateBefore.selectedProductId,
+                            }),
+                        },
+                        fail: "FAILED",
+                        load: {
+                            event: "LOADED",
+                            payload: ({ result }: any) => ({ count: result }),
+                        },
+                        failLater: "FAILED_LATER",
+                    },
+                    transitions: [{ event: "SORT_CHANGED", select: (state: any) => state.sortBy }],
+                }
+            )
+        );
+    });
+
+    it("should track declared actions with the payload built from the call", () => {
+        store.actions.setSelectedProductId("1");
+        expect(client.track).toHaveBeenCalledWith("PRODUCT_SELECTED", { id: "1", prevId: null });
+    });
+
+    it("should not track actions that threw", () => {
+        expect(() => store.actions.fail()).toThrow("nope");
+        expect(client.track).not.toHaveBeenCalled();
+    });
+
+    it("should track async actions once they resolve, with the resolved result", async () => {
+        const loading = store.actions.load(3);
+        expect(client.track).not.toHaveBeenCalled();
+        await loading;
+        expect(client.track).toHaveBeenCalledWith("LOADED", { count: 3 });
+    });
+
+    it("should not track async actions that rejected", async () => {
+        await expect(store.actions.failLater()).rejects.toThrow("later");
+        expect(client.track).not.toHaveBeenCalled();
+    });
+
+    it("should track state transitions with next and prev values", () => {
+        store.actions.setSortBy("price");
+        expect(client.track).toHaveBeenCalledWith("SORT_CHANGED", { next: "price", prev: "name" });
+    });
+
+    it("should not track transitions when the selected value is unchanged", () => {
+        store.actions.setSortBy("name");
+        expect(client.track).not.toHaveBeenCalled();
+    });
+});
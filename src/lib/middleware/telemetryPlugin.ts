@@ -0,0 +1,179 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    ActionOutcome,
+    ActionParameters,
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+    StoreValues,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+import { isPromise } from "../isPromise";
+import { TelemetryClient } from "./telemetryClient";
+
+/**
+ * Describes the event produced when an action finishes
+ *
+ * @template TState The state object type
+ * @template TArgs The action's arguments (excluding state)
+ */
+export interface ActionEventDefinition<TState, TArgs extends any[] = any[]> {
+    /**
+     * The event name
+     */
+    event: string;
+    /**
+     * Builds the event payload from the call. Defaults to `{ args }`.
+     */
+    payload?: (call: ActionOutcome<TState> & { args: TArgs }) => unknown;
+}
+
+/**
+ * Describes an event produced when a selected part of the state changes, regardless of which
+ * action (or other write) changed it
+ *
+ * @template TValues The plain state/derived values of the store
+ * @template TSelected The selected value
+ */
+export interface TransitionEventDefinition<TValues, TSelected = any> {
+    /**
+     * The event name
+     */
+    event: string;
+    /**
+     * Picks the watched value from state and derived values
+     */
+    select: (state: TValues) => TSelected;
+    /**
+     * Decides whether the selected value changed
+     * @default Object.is
+     */
+    equalityFn?: (a: TSelected, b: TSelected) => boolean;
+    /**
+     * Builds the event payload. Defaults to `{ next, prev }`.
+     */
+    payload?: (next: TSelected, prev: TSelected) => unknown;
+}
+
+export interface TelemetryOptions<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any>,
+    TActions extends Record<string, (...args: any[]) => any>,
+> {
+    /**
+     * The client events are queued on (see `createTelemetryClient`)
+     */
+    client: TelemetryClient;
+    /**
+     * Events produced by actions, keyed by action name. A string is shorthand for `{ event }`.
+     * Cancelled calls and calls that threw produce no event. Async actions produce theirs once
+     * they resolve (`result` is then the resolved value); rejected calls produce none.
+     */
+    actions?: {
+        [K in keyof TActions]?:
+            | string
+            | ActionEventDefinition<TState, ActionParameters<TActions[K]>>;
+    };
+    /**
+     * Events produced by state transitions
+     */
+    transitions?: TransitionEventDefinition<StoreValues<TState, TDerived>>[];
+}
+
+/**
+ * Creates a middleware that declares which actions and state transitions produce telemetry events
+ *
+ * @example
+ * const store = createStore(
+ *   telemetryPlugin({
+ *     initialState: { sortBy: "name", selectedProductId: null },
+ *     actions: { setSelectedProductId: (state, id) => { state.selectedProductId.value = id } },
+ *   }, {
+ *     client: telemetryClient,
+ *     actions: {
+ *       setSelectedProductId: { event: "PRODUCT_SELECTED", payload: ({ args: [id] }) => ({ id }) },
+ *     },
+ *     transitions: [{ event: "SORT_CHANGED", select: (state) => state.sortBy }],
+ *   })
+ * );
+ */
+export function telemetryPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: TelemetryOptions<TState, TDerived, TActions>
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const {
+        client,
+        actions = {} as NonNullable<typeof options.actions>,
+        transitions = [],
+    } = options;
+
+    const withMiddleware = addActionMiddleware(config, {
+        after: (outcome) => {
+            const definition = actions[outcome.name as keyof TActions];
+            if (!definition || outcome.cancelled || outcome.error !== undefined) {
+                return;
+            }
+            const { event, payload = ({ args }: ActionOutcome<TState>) => ({ args }) } =
+                typeof definition === "string" ? { event: definition } : definition;
+            const track = (result: unknown) =>
+                client.track(
+                    event,
+                    payload({ ...outcome, result } as ActionOutcome<TState> & { args: any })
+                );
+            // async actions produce their event once they resolve, with the resolved value
+            if (isPromise(outcome.result)) {
+                outcome.result.then(track, () => undefined);
+            } else {
+                track(outcome.result);
+            }
+        },
+    });
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        // store.subscribe listeners are removed by store.dispose(), no cleanup needed here
+        for (const {
+            event,
+            select,
+            equalityFn,
+            payload = (next: unknown, prev: unknown) => ({ next, prev }),
+        } of transitions) {
+            store.subscribe(select, (next, prev) => client.track(event, payload(next, prev)), {
+                equalityFn,
+            });
+        }
+
+        // Call the original onStoreCreated if it exists (its cleanup runs on dispose)
+        if (originalOnStoreCreated) {
+            return originalOnStoreCreated(store);
+        }
+    };
+
+    return { ...withMiddleware, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `telemetryPlugin` as a plugin object, for `compose`
+ */
+export function createTelemetryMiddleware<
+    TState extends Record<string, any> = any,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = any,
+    TActions extends Record<string, (...args: any[]) => any> = any,
+>(options: TelemetryOptions<TState, TDerived, TActions>): StorePlugin<TState> {
+    return {
+        name: "telemetry",
+        transform: (config) =>
+            telemetryPlugin(config as StoreConfig<TState, TDerived, TActions>, options),
+    };
+}
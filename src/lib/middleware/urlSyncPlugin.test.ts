@@ -0,0 +1,149 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { persistPlugin } from "./persistPlugin";
+import { memoryStorageAdapter } from "./storageAdapters";
+import { urlSyncPlugin } from "./urlSyncPlugin";
+
+// jsdom's page URL, set without adding a history entry
+const openPage = (path: string) => window.history.replaceState(null, "", path);
+
+// jsdom traverses history asynchronously, so wait for the popstate that follows back()
+const goBack = () =>
+    new Promise<void>((resolve) => {
+        window.addEventListener("popstate", () => resolve(), { once: true });
+        window.history.back();
+    });
+
+describe("urlSyncPlugin", () => {
+    let store: any, pushState: jest.SpyInstance, startLength: number;
+
+    const listConfig = {
+        initialState: { sortBy: "name", page: 1, selectedId: null as string | null },
+        actions: {
+            setSortBy: (state: any, sortBy: string) => {
+                state.sortBy.value = sortBy;
+            },
+            setPage: (state: any, page: number) => {
+                state.page.value = page;
+            },
+            select: (state: any, id: string | null) => {
+                state.selectedId.value = id;
+            },
+        },
+    };
+
+    const keys = {
+        sortBy: { param: "sort" },
+        page: true as const,
+        selectedId: { param: "id", history: "push" as const },
+    };
+
+    beforeEach(() => {
+        pushState = jest.spyOn(window.history, "pushState");
+    });
+
+    afterEach(() => {
+        store?.dispose();
+        store = undefined;
+        jest.restoreAllMocks();
+    });
+
+    describe("when the URL has some of the keys", () => {
+        beforeEach(() => {
+            openPage("/products?sort=price&page=3&utm=mail#top");
+            startLength = window.history.length;
+            store = createStore(urlSyncPlugin(listConfig, { keys }));
+        });
+
+        it("should start with the decoded URL values", () => {
+            expect(store.getStateSnapshot()).toEqual({
+                sortBy: "price",
+                page: 3,
+                selectedId: null,
+            });
+        });
+
+        it("should replace the URL for replace keys, keeping other params and the hash", () => {
+            store.actions.setSortBy("qty");
+
+            expect(pushState).not.toHaveBeenCalled();
+            expect(window.location.pathname + window.location.search + window.location.hash).toBe(
+                "/products?sort=qty&page=3&utm=mail#top"
+            );
+        });
+
+        it("should push the URL for push keys, and leave out default values", () => {
+            store.actions.select("7");
+            store.actions.setPage(1);
+
+            expect(window.history.length).toBe(startLength + 1);
+            expect(window.location.search).toBe("?sort=price&utm=mail&id=7");
+        });
+
+        it("should restore the state when navigating back", async () => {
+            store.actions.select("7");
+            await goBack();
+
+            expect(store.selectedId.value).toBeNull();
+            expect(store.sortBy.value).toBe("price");
+            expect(window.location.search).toBe("?sort=price&page=3&utm=mail");
+            expect(window.history.length).toBe(startLength + 1);
+        });
+
+        it("should stop listening once disposed", async () => {
+            store.actions.select("7");
+            store.dispose();
+            await goBack();
+
+            expect(store.selectedId.value).toBe("7");
+        });
+    });
+
+    it("should ignore values that don't decode", () => {
+        openPage("/products?page=abc");
+        store = createStore(urlSyncPlugin(listConfig, { keys }));
+
+        expect(store.page.value).toBe(1);
+    });
+
+    it("should use custom encoders and decoders", () => {
+        openPage("/products?sort=PRICE");
+        store = createStore(
+            urlSyncPlugin(listConfig, {
+                keys: {
+                    sortBy: {
+                        param: "sort",
+                        encode: (value: string) => value.toUpperCase(),
+                        decode: (raw: string) => raw.toLowerCase(),
+                    },
+                },
+            })
+        );
+        store.actions.setSortBy("qty");
+
+        expect(window.location.search).toBe("?sort=QTY");
+    });
+
+    describe("when combined with persistence", () => {
+        beforeEach(() => {
+            openPage("/products?sort=price");
+            startLength = window.history.length;
+            const storage = memoryStorageAdapter({
+                list: JSON.stringify({ state: { sortBy: "qty", page: 4 }, version: 0 }),
+            });
+            store = createStore(
+                urlSyncPlugin(persistPlugin(listConfig, { name: "list", storage }), { keys })
+            );
+        });
+
+        it("should prefer the URL values, and fill in the rest from storage", () => {
+            expect(store.sortBy.value).toBe("price");
+            expect(store.page.value).toBe(4);
+        });
+
+        it("should show the stored values in the URL", () => {
+            expect(window.location.search).toBe("?sort=price&page=4");
+            expect(window.history.length).toBe(startLength);
+        });
+    });
+});
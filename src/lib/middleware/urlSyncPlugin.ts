@@ -0,0 +1,258 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { effect } from "@preact/signals-react";
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { shallowEqual } from "../subscribe";
+import { WithPersist } from "./persistPlugin";
+
+/**
+ * How a single state key maps to a query parameter
+ *
+ * @template TValue The type of the state value
+ */
+export interface UrlParamOptions<TValue> {
+    /**
+     * The query parameter name
+     * @default the state key
+     */
+    param?: string;
+    /**
+     * Turns the value into the parameter string
+     * @default strings as they are, anything else as JSON
+     */
+    encode?: (value: TValue) => string;
+    /**
+     * Turns the parameter string back into a value. Return `undefined` for strings that don't
+     * decode to a valid value; the parameter is then ignored.
+     * @default based on the type of `defaultValue`: numbers and booleans are parsed, strings
+     * (and null) are taken as they are, anything else is parsed as JSON
+     */
+    decode?: (raw: string) => TValue | undefined;
+    /**
+     * The value the parameter is left out of the URL for. Going back to a URL without the
+     * parameter sets the key back to this value.
+     * @default the key's `initialState` value
+     */
+    defaultValue?: TValue;
+    /**
+     * How a change to this key updates the URL: `push` adds a history entry (so the back button
+     * undoes it), `replace` updates the current one. A change to several keys at once pushes
+     * if any of them pushes.
+     * @default "replace"
+     */
+    history?: "push" | "replace";
+}
+
+export interface UrlSyncOptions<TState extends Record<string, any>> {
+    /**
+     * The state keys to keep in the URL, with their parameter options (`true` for the defaults)
+     */
+    keys: { [K in keyof TState]?: UrlParamOptions<TState[K]> | true };
+}
+
+/**
+ * Creates a middleware that keeps chosen state keys in the URL query string, so a view can be
+ * bookmarked or shared
+ *
+ * - On creation, the keys found in the URL override the starting state. Keys missing from the
+ *   URL keep their value, and the URL is then updated to show the current state.
+ * - State changes update the URL with `pushState` or `replaceState` (see `history`).
+ * - Navigating back or forward (`popstate`) restores the keys from the URL; keys missing from it
+ *   go back to their `defaultValue`.
+ *
+ * Combined with `localStoragePlugin` (or any `persistPlugin`), values in the URL win over stored
+ * ones and stored values fill in the keys the URL leaves out. For that, wrap the persisted config
+ * with this plugin (in `compose`, list it after the persistence plugin). Values stored by an
+ * asynchronous adapter are overridden again by the URL once hydration completes.
+ *
+ * Does nothing where there is no `window.history` (e.g. on the server).
+ *
+ * @example
+ * const store = createStore(
+ *   urlSyncPlugin(
+ *     localStoragePlugin({ initialState: { sortBy: "name", page: 1 } }, { name: "products" }),
+ *     { keys: { sortBy: { param: "sort" }, page: { history: "push" } } }
+ *   )
+ * );
+ * // ?sort=price&page=2 starts the store with sortBy "price" and page 2
+ */
+export function urlSyncPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: UrlSyncOptions<TState>
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    if (typeof window === "undefined" || !window.history) {
+        return config;
+    }
+
+    const params = Object.keys(options.keys).map((key) => {
+        const keyOptions = options.keys[key] === true ? {} : options.keys[key]!;
+        const defaultValue =
+            "defaultValue" in keyOptions ? keyOptions.defaultValue : config.initialState[key];
+        return {
+            key: key as keyof TState,
+            param: keyOptions.param ?? key,
+            encode: (keyOptions.encode ?? encodeParam) as (value: unknown) => string,
+            decode: keyOptions.decode ?? ((raw: string) => decodeParam(raw, defaultValue)),
+            defaultValue,
+            push: keyOptions.history === "push",
+        };
+    });
+
+    /**
+     * Reads the synced keys from the current URL
+     * Keys missing from the URL are left out, or set to their default with `withDefaults`.
+     */
+    const readUrl = (withDefaults: boolean) => {
+        const search = new URLSearchParams(window.location.search);
+        const values: Partial<TState> = {};
+        for (const { key, param, decode, defaultValue } of params) {
+            const raw = search.get(param);
+            const value = raw === null ? undefined : decode(raw);
+            if (value !== undefined) {
+                values[key] = value;
+            } else if (withDefaults) {
+                values[key] = defaultValue;
+            }
+        }
+        return values;
+    };
+
+    const fromUrl = readUrl(false);
+    const hydratedState = { ...config.hydratedState, ...fromUrl };
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+        // Call the original onStoreCreated if it exists
+        const cleanupOriginal = originalOnStoreCreated ? originalOnStoreCreated(store) : undefined;
+
+        // true while restoring from the URL, so the restored state isn't written back
+        let restoring = false;
+
+        const writeUrl = (state: Partial<TState>, push: boolean) => {
+            const url = new URL(window.location.href);
+            for (const { key, param, encode, defaultValue } of params) {
+                if (shallowEqual(state[key], defaultValue)) {
+                    url.searchParams.delete(param);
+                } else {
+                    url.searchParams.set(param, encode(state[key]));
+                }
+            }
+            if (url.href === window.location.href) {
+                return;
+            }
+            if (push) {
+                window.history.pushState(null, "", url.href);
+            } else {
+                window.history.replaceState(window.history.state, "", url.href);
+            }
+        };
+
+        const selectSynced = (state: TState) => {
+            const synced: Partial<TState> = {};
+            for (const { key } of params) {
+                synced[key] = state[key];
+            }
+            return synced;
+        };
+
+        // show state that came from elsewhere (storage, server, defaults) in the URL right away
+        writeUrl(selectSynced(store.getStateSnapshot()), false);
+
+        const unsubscribe = store.subscribe(
+            (state) => selectSynced(state),
+            (next, prev) => {
+                if (restoring) {
+                    return;
+                }
+                const push = params.some(
+                    ({ key, push }) => push && !Object.is(next[key], prev[key])
+                );
+                writeUrl(next, push);
+            },
+            { equalityFn: shallowEqual }
+        );
+
+        const handlePopState = () => {
+            restoring = true;
+            try {
+                store.setState(readUrl(true));
+            } finally {
+                restoring = false;
+            }
+        };
+        window.addEventListener("popstate", handlePopState);
+
+        // an asynchronous adapter hydrates later and would overwrite the URL values,
+        // so put them back as soon as it's done
+        const { persist } = store as Partial<WithPersist>;
+        let disposeEffect: (() => void) | undefined;
+        if (persist && !persist.hasHydrated.peek() && Object.keys(fromUrl).length) {
+            disposeEffect = effect(() => {
+                if (persist.hasHydrated.value) {
+                    store.setState(fromUrl);
+                }
+            });
+        }
+
+        return () => {
+            unsubscribe();
+            window.removeEventListener("popstate", handlePopState);
+            if (disposeEffect) {
+                disposeEffect();
+            }
+            if (cleanupOriginal) {
+                cleanupOriginal();
+            }
+        };
+    };
+
+    return { ...config, hydratedState, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `urlSyncPlugin` as a plugin object, for `compose`
+ * It must come after the persistence plugin, so URL values win over stored ones.
+ */
+export function createUrlSyncMiddleware<TState extends Record<string, any> = any>(
+    options: UrlSyncOptions<TState>
+): StorePlugin<TState> {
+    return {
+        name: "urlSync",
+        after: ["persist"],
+        transform: (config) => urlSyncPlugin(config, options),
+    };
+}
+
+const encodeParam = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+const decodeParam = (raw: string, defaultValue: unknown): any => {
+    if (typeof defaultValue === "string" || defaultValue === null) {
+        return raw;
+    }
+    if (typeof defaultValue === "number") {
+        const value = Number(raw);
+        return raw.trim() === "" || Number.isNaN(value) ? undefined : value;
+    }
+    if (typeof defaultValue === "boolean") {
+        return raw === "true" ? true : raw === "false" ? false : undefined;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return undefined;
+    }
+};
@@ -0,0 +1,184 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { validationPlugin } from "./validationPlugin";
+
+describe("validationPlugin", () => {
+    let store: any, onInvalid: jest.Mock;
+
+    const validators = {
+        sortBy: (value: unknown) => value === "name" || value === "price",
+        count: {
+            safeParse: (value: unknown) =>
+                typeof value === "number"
+                    ? { success: true }
+                    : { success: false, error: new Error("Expected a number") },
+        },
+    };
+
+    const createListStore = (options: any = {}, config: any = {}) =>
+        createStore(
+            validationPlugin(
+                {
+                    initialState: { sortBy: "name", count: 0 },
+                    actions: {
+                        update: (state: any, sortBy: string, count: any) => {
+                            state.sortBy.value = sortBy;
+                            state.count.value = count;
+                        },
+                    },
+                    ...config,
+                },
+                { validators, onInvalid, ...options }
+            )
+        ) as any;
+
+    beforeEach(() => {
+        onInvalid = jest.fn();
+    });
+
+    describe("when the initial state is invalid", () => {
+        it("should throw", () => {
+            expect(() =>
+                createListStore({}, { initialState: { sortBy: "banana", count: 0 } })
+            ).toThrow("Invalid initialState for 'sortBy'");
+        });
+
+        it("should only report it in warn mode", () => {
+            store = createListStore(
+                { mode: "warn" },
+                { initialState: { sortBy: "banana", count: 0 } }
+            );
+
+            expect(store.sortBy.value).toEqual("banana");
+            expect(onInvalid).toHaveBeenCalledWith(
+                expect.objectContaining({ key: "sortBy", value: "banana", source: "initial" })
+            );
+        });
+    });
+
+    describe("when the hydrated state is invalid", () => {
+        beforeEach(() => {
+            store = createListStore({}, { hydratedState: { sortBy: "price", count: "12" } });
+        });
+
+        it("should drop the invalid values and keep the valid ones", () => {
+            expect(store.getStateSnapshot()).toEqual({ sortBy: "price", count: 0 });
+        });
+
+        it("should report the schema error", () => {
+            expect(onInvalid).toHaveBeenCalledWith({
+                key: "count",
+                value: "12",
+                source: "hydrated",
+                action: undefined,
+                error: new Error("Expected a number"),
+            });
+        });
+    });
+
+    describe("when an action produces invalid state", () => {
+        describe("in reject mode", () => {
+            beforeEach(() => {
+                store = createListStore();
+                store.actions.update("price", "oops");
+            });
+
+            it("should roll the whole action back", () => {
+                expect(store.getStateSnapshot()).toEqual({ sortBy: "name", count: 0 });
+            });
+
+            it("should report the action", () => {
+                expect(onInvalid).toHaveBeenCalledWith(
+                    expect.objectContaining({ key: "count", source: "action", action: "update" })
+                );
+            });
+        });
+
+        describe("in fallback mode", () => {
+            beforeEach(() => {
+                store = createListStore({ mode: "fallback" });
+                store.actions.update("price", 3);
+                store.actions.update("banana", 4);
+            });
+
+            it("should reset only the invalid keys", () => {
+                expect(store.getStateSnapshot()).toEqual({ sortBy: "name", count: 4 });
+            });
+        });
+
+        describe("in warn mode", () => {
+            beforeEach(() => {
+                store = createListStore({ mode: "warn" });
+                store.actions.update("banana", 4);
+            });
+
+            it("should keep the invalid state", () => {
+                expect(store.getStateSnapshot()).toEqual({ sortBy: "banana", count: 4 });
+                expect(onInvalid).toHaveBeenCalledTimes(1);
+            });
+        });
+    });
+
+    describe("when state is written outside of an action", () => {
+        beforeEach(() => {
+            store = createListStore();
+            store.setState({ sortBy: "price" });
+            store.setState({ sortBy: "banana", count: 2 });
+        });
+
+        it("should roll back the invalid key only", () => {
+            expect(store.getStateSnapshot()).toEqual({ sortBy: "price", count: 2 });
+            expect(onInvalid).toHaveBeenCalledWith(
+                expect.objectContaining({ key: "sortBy", value: "banana", source: "update" })
+            );
+        });
+    });
+
+    describe("when the store is disposed", () => {
+        beforeEach(() => {
+            store = createListStore();
+            store.dispose();
+            store.setState({ sortBy: "banana" });
+        });
+
+        it("should stop checking writes", () => {
+            expect(store.sortBy.value).toEqual("banana");
+            expect(onInvalid).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("when several stores are created from the same config", () => {
+        let first: any, second: any;
+
+        beforeEach(() => {
+            const config = validationPlugin(
+                {
+                    initialState: { sortBy: "name", count: 0 },
+                    actions: {
+                        setCount: (state: any, count: any) => {
+                            state.count.value = count;
+                        },
+                    },
+                },
+                { validators, onInvalid }
+            );
+            first = createStore(config);
+            second = createStore(config);
+            first.actions.setCount("oops");
+        });
+
+        it("should roll back the store the action ran on", () => {
+            expect(first.count.value).toBe(0);
+            expect(second.count.value).toBe(0);
+        });
+
+        it("should keep checking the others once one is disposed", () => {
+            second.actions.setCount(2);
+            second.dispose();
+            first.actions.setCount("oops");
+
+            expect(first.count.value).toBe(0);
+            expect(second.count.value).toBe(2);
+        });
+    });
+});
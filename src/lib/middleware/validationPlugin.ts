@@ -0,0 +1,261 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+    StorePlugin,
+} from "../types";
+import { addActionMiddleware } from "../actionPipeline";
+
+/**
+ * Anything with a `safeParse` method returning `{ success }`, e.g. a zod schema
+ */
+export interface SchemaLike {
+    safeParse: (value: unknown) => { success: boolean; error?: unknown };
+}
+
+/**
+ * Checks a single state value: a predicate returning true for valid values, or a schema
+ */
+export type StateValidator = ((value: unknown) => boolean) | SchemaLike;
+
+/**
+ * Where an invalid value came from
+ * - `initial`: `initialState`
+ * - `hydrated`: `hydratedState` (e.g. restored from storage before the store was created)
+ * - `action`: the state an action left behind
+ * - `update`: a write made outside of an action (`setState`, async hydration, other tabs, devtools)
+ */
+export type ValidationSource = "initial" | "hydrated" | "action" | "update";
+
+/**
+ * Describes a state value that failed validation
+ */
+export interface ValidationIssue<TState extends Record<string, any>> {
+    key: keyof TState;
+    value: unknown;
+    source: ValidationSource;
+    /**
+     * The action that produced the value, when `source` is "action"
+     */
+    action?: string;
+    /**
+     * The error reported by the schema (or thrown by the predicate), if any
+     */
+    error?: unknown;
+}
+
+export interface ValidationOptions<TState extends Record<string, any>> {
+    /**
+     * A validator per state key. Keys without a validator are not checked.
+     */
+    validators: { [K in keyof TState]?: StateValidator };
+    /**
+     * What happens to invalid values
+     * - `reject`: the change is rolled back (a whole action, or the single key written outside
+     *   of an action); invalid hydrated values are dropped in favour of `initialState`
+     * - `fallback`: invalid keys are reset to their `initialState` value
+     * - `warn`: invalid values are kept and only reported
+     * An invalid `initialState` always throws, unless the mode is `warn`.
+     * @default "reject"
+     */
+    mode?: "reject" | "fallback" | "warn";
+    /**
+     * Called for every invalid value
+     * @default logs the issue with console.warn
+     */
+    onInvalid?: (issue: ValidationIssue<TState>) => void;
+}
+
+const defaultOnInvalid = (issue: ValidationIssue<any>) => {
+    console.warn(
+        `Invalid value for '${String(issue.key)}' (${issue.source}${issue.action ? ` ${issue.action}` : ""}):`,
+        issue.value
+    );
+};
+
+const runValidator = (
+    validator: StateValidator,
+    value: unknown
+): { valid: boolean; error?: unknown } => {
+    try {
+        if (typeof validator === "function") {
+            return { valid: validator(value) };
+        }
+        const { success, error } = validator.safeParse(value);
+        return { valid: success, error };
+    } catch (error: unknown) {
+        return { valid: false, error };
+    }
+};
+
+/**
+ * Creates a middleware that validates state values against a validator per key
+ *
+ * The initial state, the hydrated state, the state left behind by every action and every write
+ * made outside of actions are checked. Wrap persistence plugins with this plugin so that the
+ * state they restore is validated too. Writes an async action makes after awaiting are checked
+ * like writes made outside of actions.
+ *
+ * @example
+ * const store = createStore(
+ *   validationPlugin(
+ *     localStoragePlugin({
+ *       initialState: { sortBy: "name", count: 0 }
+ *     }, { name: "list-store" }),
+ *     {
+ *       validators: {
+ *         sortBy: (value) => value === "name" || value === "price",
+ *         count: z.number().int(),
+ *       },
+ *       mode: "fallback",
+ *     }
+ *   )
+ * );
+ */
+export function validationPlugin<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: ValidationOptions<TState>
+): StoreConfig<TState, TDerived, TActions, TFamilies> {
+    const { validators, mode = "reject", onInvalid = defaultOnInvalid } = options;
+    const validatedKeys = Object.keys(validators) as (keyof TState)[];
+
+    // Returns the invalid keys of a (partial) state, reporting each of them
+    const validate = (
+        state: Partial<TState>,
+        source: ValidationSource,
+        action?: string
+    ): (keyof TState)[] => {
+        const invalid: (keyof TState)[] = [];
+        for (const key of validatedKeys) {
+            if (!(key in state)) {
+                continue;
+            }
+            const { valid, error } = runValidator(validators[key]!, state[key]);
+            if (!valid) {
+                invalid.push(key);
+                onInvalid({ key, value: state[key], source, action, error });
+            }
+        }
+        return invalid;
+    };
+
+    const invalidInitial = validate(config.initialState, "initial");
+    if (invalidInitial.length && mode !== "warn") {
+        throw new Error(`Invalid initialState for '${invalidInitial.map(String).join("', '")}'`);
+    }
+
+    // drop invalid restored values, so the store starts from initialState for those keys
+    let hydratedState = config.hydratedState;
+    if (hydratedState) {
+        const invalidHydrated = validate(hydratedState, "hydrated");
+        if (invalidHydrated.length && mode !== "warn") {
+            hydratedState = { ...hydratedState };
+            for (const key of invalidHydrated) {
+                delete hydratedState[key];
+            }
+        }
+    }
+
+    // how many actions are running on each store created from this config: writes made while an
+    // action runs are checked once the action is done
+    const actionDepths = new WeakMap<object, { depth: number }>();
+
+    const withMiddleware = addActionMiddleware(config, {
+        around: (call, next) => {
+            const { store } = call;
+            const running = actionDepths.get(store);
+            if (!running) {
+                return next();
+            }
+            running.depth++;
+            let result: unknown;
+            try {
+                result = next();
+            } finally {
+                running.depth--;
+            }
+            // only the keys the action changed are checked
+            const stateAfter = store.getStateSnapshot();
+            const changed: Partial<TState> = {};
+            for (const key of validatedKeys) {
+                if (!Object.is(stateAfter[key], call.stateBefore[key])) {
+                    changed[key] = stateAfter[key];
+                }
+            }
+            const invalid = validate(changed, "action", call.name);
+            if (invalid.length && mode === "reject") {
+                store.setState(call.stateBefore);
+            } else if (invalid.length && mode === "fallback") {
+                store.resetState(invalid);
+            }
+            return result;
+        },
+    });
+
+    const originalOnStoreCreated = config.onStoreCreated;
+
+    const newOnStoreCreated = (createdStore: Store<TState, TDerived, TActions, TFamilies>) => {
+        const running = { depth: 0 };
+        actionDepths.set(createdStore, running);
+
+        const unsubscribes = validatedKeys.map((key) =>
+            createdStore.subscribe(
+                (state) => state[key],
+                (next, prev) => {
+                    if (
+                        running.depth > 0 ||
+                        !validate({ [key]: next } as Partial<TState>, "update").length
+                    ) {
+                        return;
+                    }
+                    if (mode === "reject") {
+                        createdStore.setState({ [key]: prev } as Partial<TState>);
+                    } else if (mode === "fallback") {
+                        createdStore.resetState([key]);
+                    }
+                }
+            )
+        );
+
+        // Call the original onStoreCreated if it exists
+        const cleanupOriginal = originalOnStoreCreated
+            ? originalOnStoreCreated(createdStore)
+            : undefined;
+
+        return () => {
+            actionDepths.delete(createdStore);
+            for (const unsubscribe of unsubscribes) {
+                unsubscribe();
+            }
+            if (cleanupOriginal) {
+                cleanupOriginal();
+            }
+        };
+    };
+
+    return { ...withMiddleware, hydratedState, onStoreCreated: newOnStoreCreated };
+}
+
+/**
+ * The `validationPlugin` as a plugin object, for `compose`
+ * It must come after persistence plugins, so that the state they restore is validated.
+ */
+export function createValidationMiddleware<TState extends Record<string, any> = any>(
+    options: ValidationOptions<TState>
+): StorePlugin<TState> {
+    return {
+        name: "validation",
+        after: ["persist"],
+        transform: (config) => validationPlugin(config, options),
+    };
+}
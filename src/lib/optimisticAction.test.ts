@@ -0,0 +1,170 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "./store";
+import { optimisticAction } from "./optimisticAction";
+
+// a local stand-in for the backend: every request waits until the test answers it
+const createMockServer = () => {
+    const requests: { body: unknown; resolve: () => void; reject: (reason: unknown) => void }[] =
+        [];
+    const send = (body: unknown) =>
+        new Promise<unknown>((resolve, reject) => {
+            requests.push({ body, resolve: () => resolve(body), reject });
+        });
+    return { requests, send };
+};
+
+// lets the settled requests' handlers run
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("optimistic actions", () => {
+    let store: any;
+    let server: ReturnType<typeof createMockServer>;
+
+    const config = () => ({
+        initialState: {
+            prices: { a: 1, b: 2 } as Record<string, number>,
+            note: "",
+        },
+        actions: {
+            setPrice: optimisticAction({
+                apply: (state: any, id: string, price: number) => {
+                    state.prices.value = { ...state.prices.value, [id]: price };
+                },
+                commit: (_state: any, id: string, price: number) => server.send({ id, price }),
+                key: (id) => id,
+            }),
+            setNote: optimisticAction({
+                apply: (state: any, note: string) => {
+                    state.note.value = note;
+                },
+                commit: (_state: any, note: string) => server.send({ note }),
+            }),
+        },
+    });
+
+    beforeEach(() => {
+        server = createMockServer();
+        store = createStore(config());
+    });
+
+    afterEach(() => {
+        store.dispose();
+    });
+
+    it("should apply the change before the commit settles", () => {
+        store.actions.setPrice("a", 10);
+
+        expect(store.prices.value).toEqual({ a: 10, b: 2 });
+        expect(server.requests[0].body).toEqual({ id: "a", price: 10 });
+        expect(store.transactions.statusOf("a").value).toBe("pending");
+        expect(store.transactions.statusOf("b").value).toBe("idle");
+        expect(store.transactions.pending.value).toMatchObject([
+            { action: "setPrice", key: "a", args: ["a", 10] },
+        ]);
+    });
+
+    it("should keep the change once committed", async () => {
+        const call = store.actions.setPrice("a", 10);
+        server.requests[0].resolve();
+
+        await expect(call).resolves.toEqual({ id: "a", price: 10 });
+        expect(store.prices.value).toEqual({ a: 10, b: 2 });
+        expect(store.transactions.statusOf("a").value).toBe("idle");
+        expect(store.status.setPrice.lastSucceededAt.value).not.toBeNull();
+    });
+
+    describe("when a commit fails", () => {
+        let call: Promise<unknown>;
+
+        beforeEach(async () => {
+            call = store.actions.setPrice("a", 10);
+            call.catch(() => undefined);
+            store.actions.setNote("cheaper");
+            server.requests[0].reject(new Error("conflict"));
+            await flush();
+        });
+
+        it("should reject the call and mark it failed", async () => {
+            await expect(call).rejects.toThrow("conflict");
+            expect(store.transactions.statusOf("a").value).toBe("failed");
+            expect(store.transactions.failed.value[0].error).toEqual(new Error("conflict"));
+            expect(store.status.setPrice.error.value).toEqual(new Error("conflict"));
+        });
+
+        it("should only revert the keys it changed", () => {
+            expect(store.prices.value).toEqual({ a: 1, b: 2 });
+            expect(store.note.value).toBe("cheaper");
+        });
+
+        it("should clear the failure on request, or when the key changes again", async () => {
+            store.transactions.clearFailed("a");
+            expect(store.transactions.statusOf("a").value).toBe("idle");
+
+            store.actions.setPrice("b", 3).catch(() => undefined);
+            server.requests[2].reject(new Error("conflict"));
+            await flush();
+            store.actions.setPrice("b", 4);
+
+            expect(store.transactions.statusOf("b").value).toBe("pending");
+            expect(store.transactions.failed.value).toEqual([]);
+        });
+    });
+
+    it("should only cache a key's status while a transaction for it is pending or failed", async () => {
+        const status = store.transactions.statusOf("a");
+        store.actions.setPrice("a", 10);
+        expect(store.transactions.statusOf("a")).toBe(status);
+
+        server.requests[0].resolve();
+        await flush();
+
+        expect(status.value).toBe("idle");
+        expect(store.transactions.statusOf("a")).not.toBe(status);
+    });
+
+    it("should lose writes made outside of optimistic actions to the keys it reverts", async () => {
+        const call = store.actions.setPrice("a", 10).catch(() => undefined);
+        store.setState({ prices: { ...store.prices.value, b: 5 }, note: "synced" });
+
+        server.requests[0].reject(new Error("conflict"));
+        await call;
+
+        expect(store.prices.value).toEqual({ a: 1, b: 2 });
+        expect(store.note.value).toBe("synced");
+    });
+
+    it("should reapply later changes to the same keys when rolling back", async () => {
+        const first = store.actions.setPrice("a", 10).catch(() => undefined);
+        store.actions.setPrice("b", 20).catch(() => undefined);
+        store.actions.setPrice("a", 30).catch(() => undefined);
+
+        server.requests[1].resolve();
+        server.requests[0].reject(new Error("conflict"));
+        await first;
+
+        expect(store.prices.value).toEqual({ a: 30, b: 20 });
+        expect(store.transactions.statusOf("a").value).toBe("pending");
+    });
+
+    it("should not bring back a reverted change when a later one fails too", async () => {
+        store.actions.setPrice("a", 10).catch(() => undefined);
+        const second = store.actions.setPrice("b", 20).catch(() => undefined);
+
+        server.requests[0].reject(new Error("conflict"));
+        await flush();
+        server.requests[1].reject(new Error("conflict"));
+        await second;
+
+        expect(store.prices.value).toEqual({ a: 1, b: 2 });
+    });
+
+    it("should be allowed to roll back in strict mode", async () => {
+        const strictStore = createStore(config(), { strict: true });
+        const call = strictStore.actions.setNote("cheaper");
+        server.requests[0].reject(new Error("conflict"));
+
+        await expect(call).rejects.toThrow("conflict");
+        expect(strictStore.note.value).toBe("");
+        strictStore.dispose();
+    });
+});
@@ -0,0 +1,257 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { batch, computed, ReadonlySignal, signal } from "@preact/signals-react";
+import {
+    ActionContext,
+    BeaconState,
+    TransactionInfo,
+    Transactions,
+    TransactionStatus,
+} from "./types";
+
+export interface OptimisticActionOptions<TState, TArgs extends any[], TResult> {
+    /**
+     * The optimistic change, applied as soon as the action is called
+     * It may run again later, on a different state, when an earlier transaction is rolled back;
+     * keep it free of side effects.
+     */
+    apply: (state: BeaconState<TState>, ...args: TArgs) => void;
+    /**
+     * Sends the change to the backend. When the returned promise rejects, the change is rolled
+     * back.
+     */
+    commit: (
+        this: ActionContext<TState, any, any>,
+        state: BeaconState<TState>,
+        ...args: TArgs
+    ) => Promise<TResult>;
+    /**
+     * What the change is about, for `store.transactions.statusOf`
+     * @default the action name
+     */
+    key?: (...args: TArgs) => string;
+}
+
+type OptimisticOptions = OptimisticActionOptions<any, any[], unknown>;
+
+const OPTIMISTIC_ACTION = Symbol("beacon.optimisticAction");
+
+/**
+ * Declares an action that changes the state right away and then commits the change to a
+ * backend, rolling it back if the commit fails
+ *
+ * Calls are tracked as transactions in `store.transactions`, so components can show which
+ * changes are still saving or failed. When a commit fails, only the state keys its change
+ * touched are reverted; the changes of later transactions (pending or already committed) to
+ * those keys are applied again on top. Writes to those keys made outside of optimistic actions
+ * while the transaction was pending (e.g. by a refetch) are lost with the rollback.
+ *
+ * Like any action returning a promise, it also gets status signals under `store.status.<action>`.
+ *
+ * @example
+ * actions: {
+ *   renameProduct: optimisticAction({
+ *     apply: (state, id: string, name: string) => {
+ *       state.names.value = { ...state.names.value, [id]: name };
+ *     },
+ *     commit: (state, id: string, name: string) => api.rename(id, name),
+ *     key: (id) => id,
+ *   }),
+ * }
+ *
+ * store.transactions.statusOf("42").value; // "pending" until api.rename settles
+ */
+export function optimisticAction<TState, TArgs extends any[], TResult>(
+    options: OptimisticActionOptions<TState, TArgs, TResult>
+): (
+    this: ActionContext<TState, any, any>,
+    state: BeaconState<TState>,
+    ...args: TArgs
+) => Promise<TResult> {
+    // called directly (outside of a store), there is nothing to roll back to
+    const action = function (
+        this: ActionContext<TState, any, any>,
+        state: BeaconState<TState>,
+        ...args: TArgs
+    ) {
+        options.apply(state, ...args);
+        return options.commit.call(this, state, ...args);
+    };
+    return Object.assign(action, { [OPTIMISTIC_ACTION]: options as OptimisticOptions });
+}
+
+/**
+ * Returns true for actions declared with `optimisticAction`
+ */
+export function isOptimisticAction(action: unknown): boolean {
+    return typeof action === "function" && OPTIMISTIC_ACTION in action;
+}
+
+interface Transaction {
+    info: TransactionInfo;
+    /**
+     * Applies the change again, on any state
+     */
+    apply: (state: BeaconState<any>) => void;
+    /**
+     * The values the touched keys had right before the change
+     */
+    before: Record<string, unknown>;
+    settled: boolean;
+}
+
+/**
+ * Creates the transaction log shared by the optimistic actions of a store
+ *
+ * @param state The store's state signals
+ * @returns The public `transactions` controls, and `createInvoker` which wraps an optimistic
+ *   action the way `createActionInvoker` wraps the others
+ */
+export function createTransactionLog(state: BeaconState<any>) {
+    const pending = signal<TransactionInfo[]>([]);
+    const failed = signal<TransactionInfo[]>([]);
+    // `statusOf` signals, kept until no transaction with their key is pending or failed
+    const statuses = new Map<string, ReadonlySignal<TransactionStatus>>();
+    // every transaction that a rollback may still have to apply again, in call order
+    const log: Transaction[] = [];
+    let nextId = 1;
+
+    const snapshot = () => {
+        const values: Record<string, unknown> = {};
+        for (const key in state) {
+            values[key] = state[key].peek();
+        }
+        return values;
+    };
+
+    const forgetIdle = () => {
+        for (const key of statuses.keys()) {
+            const isIdle = (info: TransactionInfo) => info.key !== key;
+            if (pending.peek().every(isIdle) && failed.peek().every(isIdle)) {
+                statuses.delete(key);
+            }
+        }
+    };
+
+    /**
+     * Reverts the keys the transaction touched, then replays the later transactions that touched
+     * any of them on a scratch copy of the state, so their changes to those keys survive
+     */
+    const rollback = (transaction: Transaction) => {
+        const index = log.indexOf(transaction);
+        log.splice(index, 1);
+        const keys = Object.keys(transaction.before);
+        const scratch: BeaconState<any> = {};
+        const current = snapshot();
+        for (const key in current) {
+            scratch[key] = signal(
+                key in transaction.before ? transaction.before[key] : current[key]
+            );
+        }
+        for (const later of log.slice(index)) {
+            const overlap = keys.filter((key) => key in later.before);
+            if (overlap.length) {
+                // its own rollback must not bring back the change that was just reverted
+                for (const key of overlap) {
+                    later.before[key] = scratch[key].peek();
+                }
+                later.apply(scratch);
+            }
+        }
+        batch(() => {
+            for (const key of keys) {
+                state[key].value = scratch[key].peek();
+            }
+        });
+    };
+
+    const transactions: Transactions = {
+        pending,
+        failed,
+        statusOf: (key) => {
+            let status = statuses.get(key);
+            if (!status) {
+                status = computed(() => {
+                    if (pending.value.some((info) => info.key === key)) {
+                        return "pending";
+                    }
+                    return failed.value.some((info) => info.key === key) ? "failed" : "idle";
+                });
+                statuses.set(key, status);
+            }
+            return status;
+        },
+        clearFailed: (key) => {
+            failed.value = key === undefined ? [] : failed.value.filter((info) => info.key !== key);
+            forgetIdle();
+        },
+    };
+
+    /**
+     * Wraps an optimistic action so each call is applied, logged and committed
+     *
+     * @param name The action name
+     * @param action The action implementation from `config.actions`
+     * @param context Passed to `commit` as `this`, unless a call brings its own
+     * @param track Tracks a call's promise (see `createActionStatus`)
+     * @returns Calls the action with the given arguments (and `this`)
+     */
+    const createInvoker = (
+        name: string,
+        action: unknown,
+        context: ActionContext<any, any, any>,
+        track: (promise: Promise<unknown>) => () => void
+    ): ((args: any[], callContext?: ActionContext<any, any, any>) => Promise<unknown>) => {
+        const { apply, commit, key } = (action as any)[OPTIMISTIC_ACTION] as OptimisticOptions;
+
+        return (args, callContext = context) => {
+            const info: TransactionInfo = {
+                id: nextId++,
+                action: name,
+                key: key ? key(...args) : name,
+                args,
+            };
+            const previous = snapshot();
+            apply(state, ...args);
+            const next = snapshot();
+            const before: Record<string, unknown> = {};
+            for (const key in previous) {
+                if (!Object.is(previous[key], next[key])) {
+                    before[key] = previous[key];
+                }
+            }
+            const transaction: Transaction = {
+                info,
+                apply: (target) => apply(target, ...args),
+                before,
+                settled: false,
+            };
+            log.push(transaction);
+            batch(() => {
+                failed.value = failed.value.filter((other) => other.key !== info.key);
+                pending.value = [...pending.value, info];
+            });
+
+            const promise = (async () => {
+                try {
+                    return await commit.call(callContext, state, ...args);
+                } catch (error) {
+                    rollback(transaction);
+                    failed.value = [...failed.value, { ...info, error }];
+                    throw error;
+                } finally {
+                    transaction.settled = true;
+                    pending.value = pending.value.filter((other) => other !== info);
+                    forgetIdle();
+                    // settled transactions are only kept while an earlier one may still roll back
+                    while (log.length && log[0].settled) {
+                        log.shift();
+                    }
+                }
+            })();
+            track(promise);
+            return promise;
+        };
+    };
+
+    return { transactions, createInvoker, clear: () => statuses.clear() };
+}
@@ -0,0 +1,2 @@
+export * from "./storeContext";
+export * from "./useSignalValue";
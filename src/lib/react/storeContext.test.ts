@@ -0,0 +1,132 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { createStore } from "../store";
+import { BeaconState } from "../types";
+import { createStoreContext } from "./storeContext";
+
+type CounterState = { count: number; label: string };
+type CounterDerived = { doubled: (state: BeaconState<CounterState>) => number };
+type CounterActions = { increment: (state: BeaconState<CounterState>) => void };
+
+const createCounterStore = (count = 0) =>
+    createStore<CounterState, CounterDerived, CounterActions>({
+        initialState: { count, label: "Count" },
+        derived: {
+            doubled: (state) => state.count.value * 2,
+        },
+        actions: {
+            increment: (state) => {
+                state.count.value++;
+            },
+        },
+    });
+
+describe("createStoreContext", () => {
+    let context: ReturnType<
+        typeof createStoreContext<CounterState, CounterDerived, CounterActions>
+    >;
+
+    beforeEach(() => {
+        context = createStoreContext<CounterState, CounterDerived, CounterActions>();
+    });
+
+    const Counter = () => {
+        const label = context.useStore((state) => state.label);
+        const doubled = context.useStore((state) => state.doubled);
+        return createElement("span", null, `${label}: ${doubled}`);
+    };
+
+    describe("when a store is provided", () => {
+        it("should render the selected state and derived values", () => {
+            const store = createCounterStore(2);
+
+            const html = renderToString(
+                createElement(context.StoreProvider, { store }, createElement(Counter))
+            );
+
+            expect(html).toBe("<span>Count: 4</span>");
+        });
+
+        it("should render the latest values after the store changes", () => {
+            const store = createCounterStore(2);
+            store.actions.increment();
+
+            const html = renderToString(
+                createElement(context.StoreProvider, { store }, createElement(Counter))
+            );
+
+            expect(html).toBe("<span>Count: 6</span>");
+        });
+
+        it("should read from the nearest provider", () => {
+            const outer = createCounterStore(1);
+            const inner = createCounterStore(10);
+
+            const html = renderToString(
+                createElement(
+                    context.StoreProvider,
+                    { store: outer },
+                    createElement(Counter),
+                    createElement(context.StoreProvider, { store: inner }, createElement(Counter))
+                )
+            );
+
+            expect(html).toBe("<span>Count: 2</span><span>Count: 20</span>");
+        });
+
+        it("should only evaluate the derived values the selector reads", () => {
+            const total = jest.fn(() => 0);
+            const store = createStore({
+                initialState: { label: "Cart" },
+                derived: { total },
+            });
+            const withCart = createStoreContext(store);
+            const Label = () =>
+                createElement(
+                    "span",
+                    null,
+                    withCart.useStore((state) => state.label)
+                );
+
+            expect(renderToString(createElement(Label))).toBe("<span>Cart</span>");
+            expect(total).not.toHaveBeenCalled();
+        });
+
+        it("should expose the store instance", () => {
+            const store = createCounterStore();
+            let instance: any;
+            const Reader = () => {
+                instance = context.useStoreInstance();
+                return null;
+            };
+
+            renderToString(createElement(context.StoreProvider, { store }, createElement(Reader)));
+
+            expect(instance).toBe(store);
+        });
+    });
+
+    describe("when no store is provided", () => {
+        it("should use the default store", () => {
+            const withDefault = createStoreContext(createCounterStore(3));
+            const Doubled = () =>
+                createElement(
+                    "span",
+                    null,
+                    withDefault.useStore((state) => state.doubled)
+                );
+
+            expect(renderToString(createElement(Doubled))).toBe("<span>6</span>");
+        });
+
+        it("should throw without a default store", () => {
+            const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+            expect(() => renderToString(createElement(Counter))).toThrow(
+                "useStore must be used within a StoreProvider"
+            );
+            consoleError.mockRestore();
+        });
+    });
+});
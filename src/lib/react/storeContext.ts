@@ -0,0 +1,126 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    createContext,
+    createElement,
+    ReactNode,
+    useCallback,
+    useContext,
+    useRef,
+    useSyncExternalStore,
+} from "react";
+import { untracked } from "@preact/signals-react";
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    ReadonlyStore,
+    StoreValues,
+} from "../types";
+
+export interface StoreProviderProps<TStore> {
+    /**
+     * The store instance made available to `useStore` below this provider
+     */
+    store: TStore;
+    children?: ReactNode;
+}
+
+/**
+ * Creates a React context for a store type, along with a provider and hooks bound to it
+ *
+ * `useStore` subscribes through `store.subscribe` and `useSyncExternalStore`, so components only
+ * re-render when their selected slice changes, and no signals Babel transform is required.
+ *
+ * @template TState The state object type
+ * @template TDerived Record of derived/computed value functions
+ * @template TActions Record of action functions
+ * @template TFamilies Record of derived family functions
+ * @param defaultStore Optional store used when no provider is rendered above a component
+ * @example
+ * const { StoreProvider, useStore, useStoreInstance } =
+ *   createStoreContext<CounterState, CounterDerived, CounterActions>();
+ *
+ * function Counter() {
+ *   const count = useStore((state) => state.count);
+ *   const { actions } = useStoreInstance();
+ *   return <button onClick={() => actions.increment(1)}>{count}</button>;
+ * }
+ *
+ * <StoreProvider store={createStore(counterConfig)}><Counter /></StoreProvider>
+ */
+export function createStoreContext<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(defaultStore?: ReadonlyStore<TState, TDerived, TActions, TFamilies>) {
+    // strict and regular stores can both be provided; consumers only get read access to state
+    type TStore = ReadonlyStore<TState, TDerived, TActions, TFamilies>;
+
+    const StoreContext = createContext<TStore | undefined>(defaultStore);
+
+    function StoreProvider({ store, children }: StoreProviderProps<TStore>) {
+        return createElement(StoreContext.Provider, { value: store }, children);
+    }
+
+    /**
+     * Returns the store instance provided above the calling component
+     */
+    function useStoreInstance(): TStore {
+        const store = useContext(StoreContext);
+        if (!store) {
+            throw new Error("useStore must be used within a StoreProvider");
+        }
+        return store;
+    }
+
+    /**
+     * Returns the selected slice of the provided store and re-renders when it changes
+     *
+     * @param selector Picks the value to render from state and derived values
+     * @param equalityFn Decides whether the selected value changed
+     * @default equalityFn Object.is
+     */
+    function useStore<TSelected>(
+        selector: (state: StoreValues<TState, TDerived, TFamilies>) => TSelected,
+        equalityFn: (a: TSelected, b: TSelected) => boolean = Object.is
+    ): TSelected {
+        const store = useStoreInstance();
+
+        // always select with the latest selector/equalityFn without resubscribing
+        const latest = useRef({ selector, equalityFn });
+        latest.current = { selector, equalityFn };
+        const selection = useRef<{ store: TStore; value: TSelected }>(undefined);
+
+        const subscribe = useCallback(
+            (onChange: () => void) =>
+                store.subscribe((state) => latest.current.selector(state), onChange, {
+                    equalityFn: (a, b) => latest.current.equalityFn(a, b),
+                }),
+            [store]
+        );
+
+        // must return the same value while nothing changed, or useSyncExternalStore loops
+        const getSnapshot = () => {
+            // read untracked so the signals transform (if present) doesn't subscribe the component;
+            // the lazy view only evaluates the keys the selector reads
+            const next = untracked(() => latest.current.selector(store.values));
+            const current = selection.current;
+            if (
+                current &&
+                current.store === store &&
+                latest.current.equalityFn(current.value, next)
+            ) {
+                return current.value;
+            }
+            selection.current = { store, value: next };
+            return next;
+        };
+
+        return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+    }
+
+    return { StoreContext, StoreProvider, useStore, useStoreInstance };
+}
@@ -0,0 +1,16 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { ReadonlySignal } from "@preact/signals-react";
+
+/**
+ * Returns the current value of a signal and re-renders the component when it changes
+ * Handy for signals that aren't part of the store state, like `store.status.<action>`.
+ *
+ * @example
+ * const loading = useSignalValue(store.status.fetchProducts.pending);
+ */
+export function useSignalValue<T>(source: ReadonlySignal<T>): T {
+    const subscribe = useCallback((onChange: () => void) => source.subscribe(onChange), [source]);
+    // peek, so rendering doesn't subscribe the component to the signal a second time
+    const getSnapshot = () => source.peek();
+    return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
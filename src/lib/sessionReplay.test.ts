@@ -0,0 +1,133 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "./store";
+import { sessionRecorderPlugin } from "./middleware/sessionRecorderPlugin";
+import { replaySession } from "./sessionReplay";
+
+describe("replaySession", () => {
+    const createCartStore = (price = 10) =>
+        createStore(
+            sessionRecorderPlugin({
+                initialState: { items: [] as string[], total: 0 },
+                actions: {
+                    addItem: (state: any, item: string) => {
+                        state.items.value = [...state.items.value, item];
+                        state.total.value += price;
+                    },
+                    checkout: (state: any) => {
+                        if (!state.items.value.length) {
+                            throw new Error("Cart is empty");
+                        }
+                        state.items.value = [];
+                    },
+                },
+            })
+        ) as any;
+
+    let recorded: any;
+
+    beforeEach(() => {
+        recorded = createCartStore();
+        recorded.session.start();
+        recorded.actions.addItem("apple");
+        recorded.actions.addItem("pear");
+    });
+
+    afterEach(() => {
+        recorded.dispose();
+    });
+
+    it("should reproduce the recorded state in a fresh store", async () => {
+        const { store, done } = replaySession(createCartStore, recorded.session.exportSession());
+
+        await expect(done).resolves.toEqual({ steps: 2, mismatches: [], passed: true });
+        expect(store.getStateSnapshot()).toEqual(recorded.getStateSnapshot());
+    });
+
+    it("should start from the recorded state rather than the store's own", async () => {
+        recorded.session.start();
+        recorded.actions.checkout();
+
+        const { store, done } = replaySession(createCartStore, recorded.session.getSession());
+
+        expect((await done).passed).toBe(true);
+        expect(store.items.value).toEqual([]);
+    });
+
+    it("should report the steps whose state differs", async () => {
+        const { done } = replaySession(() => createCartStore(12), recorded.session.getSession());
+
+        const result = await done;
+        expect(result.passed).toBe(false);
+        expect(result.mismatches[0]).toEqual({
+            step: 0,
+            action: "addItem",
+            keys: ["total"],
+            expected: { total: 10 },
+            actual: { total: 12 },
+        });
+    });
+
+    it("should report errors that don't match the recording", async () => {
+        const session = recorded.session.getSession();
+        session.steps.push({ ...session.steps[1], action: "checkout", args: [] });
+        session.steps[2].stateAfter = { items: [], total: 20 };
+        session.steps[2].error = "Cart is empty";
+
+        const result = await replaySession(createCartStore, session).done;
+
+        expect(result.mismatches).toEqual([
+            expect.objectContaining({ step: 2, keys: [], expectedError: "Cart is empty" }),
+        ]);
+    });
+
+    it("should reject sessions calling unknown actions", async () => {
+        const session = recorded.session.getSession();
+        session.steps[0].action = "removeItem";
+
+        await expect(replaySession(createCartStore, session).done).rejects.toThrow(
+            "Session step 0 calls unknown action 'removeItem'"
+        );
+    });
+
+    describe("in step mode", () => {
+        it("should only run a step when asked to", async () => {
+            const replay = replaySession(createCartStore, recorded.session.getSession(), {
+                stepMode: true,
+            });
+            await Promise.resolve();
+            expect(replay.store.items.value).toEqual([]);
+
+            await expect(replay.next()).resolves.toEqual({ step: 0, action: "addItem" });
+            expect(replay.store.items.value).toEqual(["apple"]);
+
+            await replay.next();
+            await expect(replay.next()).resolves.toBeUndefined();
+            expect((await replay.done).passed).toBe(true);
+        });
+    });
+
+    describe("at a given speed", () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it("should wait between steps as long as the user did, divided by the speed", async () => {
+            const session = recorded.session.getSession();
+            session.steps[0].timestamp = session.startedAt + 1000;
+            session.steps[1].timestamp = session.startedAt + 3000;
+
+            const replay = replaySession(createCartStore, session, { speed: 2 });
+            await jest.advanceTimersByTimeAsync(499);
+            expect(replay.store.items.value).toEqual([]);
+            await jest.advanceTimersByTimeAsync(1);
+            expect(replay.store.items.value).toEqual(["apple"]);
+            await jest.advanceTimersByTimeAsync(1000);
+
+            expect((await replay.done).passed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,238 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { RecordedSession } from "./middleware/sessionRecorderPlugin";
+
+export interface ReplayOptions {
+    /**
+     * How fast to replay compared to the recording: 1 waits as long between steps as the user did,
+     * 2 twice as fast, and so on. `Infinity` (or 0) runs the steps back to back.
+     * @default Infinity
+     */
+    speed?: number;
+    /**
+     * When true, each step only runs once `replay.next()` is called, so the store can be
+     * inspected between steps
+     * @default false
+     */
+    stepMode?: boolean;
+}
+
+/**
+ * A step whose resulting state (or error) differs from the recording
+ */
+export interface ReplayMismatch {
+    /**
+     * Index of the step in `session.steps`
+     */
+    step: number;
+    action: string;
+    /**
+     * The state keys whose values differ
+     */
+    keys: string[];
+    /**
+     * The recorded values of the differing keys
+     */
+    expected: Record<string, unknown>;
+    /**
+     * The replayed values of the differing keys
+     */
+    actual: Record<string, unknown>;
+    /**
+     * The recorded and replayed error messages, when they differ
+     */
+    expectedError?: string;
+    actualError?: string;
+}
+
+export interface ReplayStepResult {
+    step: number;
+    action: string;
+    /**
+     * Set when the step did not reproduce the recorded state
+     */
+    mismatch?: ReplayMismatch;
+}
+
+export interface ReplayResult {
+    /**
+     * How many steps were replayed
+     */
+    steps: number;
+    mismatches: ReplayMismatch[];
+    /**
+     * True when every step reproduced the recorded state
+     */
+    passed: boolean;
+}
+
+export interface SessionReplay<TStore> {
+    /**
+     * The fresh store the session is replayed in
+     */
+    store: TStore;
+    /**
+     * In step mode, runs the next step and resolves with its result (or `undefined` once every
+     * step ran). Outside of step mode the steps run on their own and this resolves `undefined`.
+     */
+    next: () => Promise<ReplayStepResult | undefined>;
+    /**
+     * Resolves once every step ran. Rejects if the session calls an action the store doesn't have.
+     */
+    done: Promise<ReplayResult>;
+}
+
+/**
+ * What `replaySession` needs of the store it replays in
+ */
+interface ReplayableStore {
+    actions: Record<string, (...args: any[]) => any>;
+    setState: (update: any) => void;
+    getStateSnapshot: () => Record<string, any>;
+}
+
+/**
+ * Sessions go through JSON when exported, so replayed state is compared the same way
+ */
+const toJson = (value: unknown): unknown =>
+    value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+const isJsonEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) {
+        return true;
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return false;
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) {
+        return false;
+    }
+    const aKeys = Object.keys(a);
+    return (
+        aKeys.length === Object.keys(b).length &&
+        aKeys.every((key) => isJsonEqual((a as any)[key], (b as any)[key]))
+    );
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Replays a recorded session (see `sessionRecorderPlugin`) in a fresh store: the store is reset
+ * to the recorded starting state, then every recorded action is called again with its recorded
+ * arguments, and the resulting state is checked against the recorded snapshot.
+ *
+ * Async actions are awaited before the next step runs, so calls that overlapped while
+ * recording run one after another. Stub their side effects (e.g. API calls) in the factory.
+ *
+ * @example
+ * // turn a session attached to a bug report into a regression test
+ * const { done } = replaySession(() => productListStoreDefinition.create(), session);
+ * expect((await done).mismatches).toEqual([]);
+ *
+ * @param storeFactory Creates the store to replay in
+ * @param session The recorded session, as an object or as exported JSON
+ * @param options Replay speed and step mode
+ */
+export function replaySession<TStore extends ReplayableStore>(
+    storeFactory: () => TStore,
+    session: RecordedSession | string,
+    options: ReplayOptions = {}
+): SessionReplay<TStore> {
+    const { speed = Infinity, stepMode = false } = options;
+    const recorded = (
+        typeof session === "string" ? JSON.parse(session) : toJson(session)
+    ) as RecordedSession;
+    const store = storeFactory();
+
+    // step mode: each next() call grants one step, and gets that step's result
+    let permits = 0;
+    let wake: (() => void) | undefined;
+    const waiting: ((result: ReplayStepResult | undefined) => void)[] = [];
+    let finished = false;
+
+    const waitForPermit = async () => {
+        while (permits === 0) {
+            await new Promise<void>((resolve) => (wake = resolve));
+        }
+        permits--;
+    };
+
+    const waitFor = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    const runStep = async (index: number): Promise<ReplayStepResult> => {
+        const step = recorded.steps[index];
+        const action = store.actions[step.action];
+        if (!action) {
+            throw new Error(`Session step ${index} calls unknown action '${step.action}'`);
+        }
+
+        let actualError: string | undefined;
+        try {
+            await action(...step.args);
+        } catch (error: unknown) {
+            actualError = errorMessage(error);
+        }
+
+        const actualState = toJson(store.getStateSnapshot()) as Record<string, unknown>;
+        const keys = Object.keys({ ...step.stateAfter, ...actualState }).filter(
+            (key) => !isJsonEqual(step.stateAfter[key], actualState[key])
+        );
+        const result: ReplayStepResult = { step: index, action: step.action };
+        if (keys.length || actualError !== step.error) {
+            result.mismatch = {
+                step: index,
+                action: step.action,
+                keys,
+                expected: Object.fromEntries(keys.map((key) => [key, step.stateAfter[key]])),
+                actual: Object.fromEntries(keys.map((key) => [key, actualState[key]])),
+            };
+            if (actualError !== step.error) {
+                result.mismatch.expectedError = step.error;
+                result.mismatch.actualError = actualError;
+            }
+        }
+        return result;
+    };
+
+    const run = async (): Promise<ReplayResult> => {
+        const mismatches: ReplayMismatch[] = [];
+        try {
+            store.setState(recorded.initialState);
+
+            let previousAt = recorded.startedAt;
+            for (let index = 0; index < recorded.steps.length; index++) {
+                const { timestamp } = recorded.steps[index];
+                if (stepMode) {
+                    await waitForPermit();
+                } else if (speed > 0 && Number.isFinite(speed)) {
+                    await waitFor(Math.max(0, timestamp - previousAt) / speed);
+                }
+                previousAt = timestamp;
+
+                const result = await runStep(index);
+                if (result.mismatch) {
+                    mismatches.push(result.mismatch);
+                }
+                waiting.shift()?.(result);
+            }
+        } finally {
+            finished = true;
+            waiting.splice(0).forEach((resolve) => resolve(undefined));
+        }
+        return { steps: recorded.steps.length, mismatches, passed: mismatches.length === 0 };
+    };
+
+    return {
+        store,
+        next: () => {
+            if (!stepMode || finished) {
+                return Promise.resolve(undefined);
+            }
+            return new Promise((resolve) => {
+                waiting.push(resolve);
+                permits++;
+                wake?.();
+            });
+        },
+        done: run(),
+    };
+}
@@ -0,0 +1,31 @@
+/**
+ * A cache of signals by key that keeps at most `limit` entries, dropping the least recently used
+ * Components still holding a dropped signal keep working; the next `get` for its key creates a
+ * new one.
+ *
+ * @param limit The maximum number of cached signals
+ */
+export function createSignalCache<TSignal>(limit: number) {
+    const cache = new Map<string, TSignal>();
+
+    return {
+        /**
+         * Returns the cached signal for the key, creating it if needed
+         */
+        get: (key: string, create: () => TSignal): TSignal => {
+            let cached = cache.get(key);
+            if (cached) {
+                // re-insert, so the map stays ordered from least to most recently used
+                cache.delete(key);
+            } else {
+                cached = create();
+            }
+            cache.set(key, cached);
+            if (cache.size > limit) {
+                cache.delete(cache.keys().next().value!);
+            }
+            return cached;
+        },
+        clear: () => cache.clear(),
+    };
+}
@@ -0,0 +1,156 @@
+import { createStore } from "./store";
+import { BeaconState } from "./types";
+import { defineStore } from "./ssr";
+import { combineSlices } from "./slices";
+
+interface Product {
+    id: string;
+    price: number;
+}
+
+const productsSlice = defineStore({
+    initialState: { products: [] as Product[] },
+    derived: {
+        productById: (state: BeaconState<{ products: Product[] }>) => (id: string) =>
+            state.products.value.find((product) => product.id === id),
+    },
+    actions: {
+        setProducts: (state, products: Product[]) => {
+            state.products.value = products;
+        },
+    },
+});
+
+const cartSlice = defineStore({
+    initialState: { items: [] as string[] },
+    derived: {
+        itemCount: (state: BeaconState<{ items: string[] }>) => state.items.value.length,
+    },
+    actions: {
+        add: (state, id: string) => {
+            state.items.value = [...state.items.value, id];
+        },
+    },
+});
+
+describe("combineSlices", () => {
+    const userStore = createStore({
+        initialState: { discount: 0 },
+        actions: {
+            setDiscount: (state, discount: number) => {
+                state.discount.value = discount;
+            },
+        },
+    });
+
+    const createCombined = () =>
+        combineSlices(
+            { products: productsSlice, cart: cartSlice },
+            {
+                dependencies: { user: userStore },
+                derived: {
+                    cartTotal: ({ products, cart, user }) =>
+                        cart.items.value.reduce(
+                            (sum, id) => sum + (products.productById.value(id)?.price ?? 0),
+                            0
+                        ) *
+                        (1 - user.discount.value),
+                },
+            }
+        );
+
+    let store: ReturnType<typeof createCombined>;
+
+    beforeEach(() => {
+        userStore.setState({ discount: 0 });
+        store = createCombined();
+        store.products.actions.setProducts([
+            { id: "1", price: 10 },
+            { id: "2", price: 5 },
+        ]);
+    });
+
+    afterEach(() => {
+        store.dispose();
+    });
+
+    it("should give namespaced access to each slice", () => {
+        store.cart.actions.add("1");
+
+        expect(store.cart.itemCount.value).toBe(1);
+        expect(store.products.productById.value("2")).toEqual({ id: "2", price: 5 });
+    });
+
+    it("should compute derived values across slices and dependencies", () => {
+        store.cart.actions.add("1");
+        store.cart.actions.add("2");
+        expect(store.cartTotal.value).toBe(15);
+
+        userStore.actions.setDiscount(0.2);
+        expect(store.cartTotal.value).toBe(12);
+    });
+
+    it("should snapshot every slice under its name", () => {
+        store.cart.actions.add("2");
+
+        expect(store.getStateSnapshot({ withDerived: true })).toEqual({
+            products: {
+                products: [
+                    { id: "1", price: 10 },
+                    { id: "2", price: 5 },
+                ],
+                productById: expect.any(Function),
+            },
+            cart: { items: ["2"], itemCount: 1 },
+            cartTotal: 5,
+        });
+    });
+
+    it("should notify subscribers with the values of each slice", () => {
+        const listener = jest.fn();
+        store.subscribe((state) => [state.cart.itemCount, state.cartTotal], listener);
+
+        store.cart.actions.add("1");
+
+        expect(listener).toHaveBeenCalledWith([1, 10], [0, 0]);
+    });
+
+    it("should stop notifying once disposed", () => {
+        const listener = jest.fn();
+        store.subscribe((state) => state.cart.items, listener);
+
+        store.dispose();
+        store.cart.actions.add("1");
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    describe("when keys conflict", () => {
+        it("should reject derived keys that collide with a slice", () => {
+            expect(() =>
+                combineSlices({ cart: cartSlice }, { derived: { cart: () => 0 } })
+            ).toThrow("Derived key 'cart' conflicts with slice");
+        });
+
+        it("should reject derived keys that collide with a dependency", () => {
+            expect(() =>
+                combineSlices(
+                    { cart: cartSlice },
+                    { dependencies: { user: userStore }, derived: { user: () => 0 } }
+                )
+            ).toThrow("Derived key 'user' conflicts with dependency");
+        });
+
+        it("should reject dependencies that collide with a slice", () => {
+            expect(() =>
+                combineSlices({ cart: cartSlice }, { dependencies: { cart: userStore } })
+            ).toThrow("Dependency 'cart' conflicts with slice");
+        });
+
+        it("should reject slices named like a store method", () => {
+            expect(() => combineSlices({ dispose: cartSlice })).toThrow(
+                "Slice 'dispose' conflicts with a store method"
+            );
+        });
+    });
+});
@@ -0,0 +1,255 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { computed, ReadonlySignal, Signal } from "@preact/signals-react";
+import { SubscribeOptions } from "./types";
+import { StoreDefinition } from "./ssr";
+import { subscribeToStore } from "./subscribe";
+
+/**
+ * The stores created from a record of slice definitions, keyed like the slices
+ */
+export type SliceStores<TSlices extends Record<string, StoreDefinition<any, any, any, any>>> = {
+    [K in keyof TSlices]: TSlices[K] extends StoreDefinition<any, any, any, infer TStore>
+        ? TStore
+        : never;
+};
+
+/**
+ * What the combined store uses of each slice store
+ */
+interface SliceStore {
+    getStateSnapshot: (opt?: { withDerived: boolean }) => Record<string, any>;
+    dispose: () => void;
+}
+
+/**
+ * The snapshot type of a slice store
+ */
+type SliceSnapshot<TStore> = TStore extends { getStateSnapshot: (...args: any[]) => infer S }
+    ? S
+    : never;
+
+/**
+ * Plain (non-signal) view of a store's state and derived values, read from its signals
+ */
+type StoreSignalValues<TStore> = {
+    [K in keyof TStore as TStore[K] extends ReadonlySignal<any>
+        ? K
+        : never]: TStore[K] extends ReadonlySignal<infer V> ? V : never;
+};
+
+/**
+ * Derived value functions of a combined store, reading any slice or dependency
+ *
+ * @template TStores The slice stores and dependencies, keyed by name
+ * @template TDerived The derived values, keyed by name
+ */
+export type CombinedDerived<TStores, TDerived> = {
+    [K in keyof TDerived]: (stores: TStores) => TDerived[K];
+};
+
+export interface CombineSlicesOptions<
+    TSlices extends Record<string, StoreDefinition<any, any, any, any>>,
+    TDependencies extends Record<string, any>,
+    TDerived extends Record<string, any>,
+> {
+    /**
+     * Other stores (or anything else) the combined derived values read, keyed by name
+     * They are passed to the derived functions alongside the slices, and are not disposed with
+     * the combined store.
+     */
+    dependencies?: TDependencies;
+    /**
+     * Derived values reading several slices (and dependencies)
+     */
+    derived?: CombinedDerived<SliceStores<TSlices> & TDependencies, TDerived>;
+}
+
+/**
+ * Plain view of a combined store, as seen by `store.subscribe` selectors
+ */
+export type CombinedStoreValues<
+    TSlices extends Record<string, StoreDefinition<any, any, any, any>>,
+    TDerived extends Record<string, any>,
+> = { [K in keyof TSlices]: StoreSignalValues<SliceStores<TSlices>[K]> } & {
+    [K in keyof TDerived]: TDerived[K];
+};
+
+/**
+ * A store made of slices: each slice store under its name, plus the combined derived values
+ */
+export type CombinedStore<
+    TSlices extends Record<string, StoreDefinition<any, any, any, any>>,
+    TDerived extends Record<string, any>,
+> = SliceStores<TSlices> & {
+    readonly [K in keyof TDerived]: ReadonlySignal<TDerived[K]>;
+} & {
+    /**
+     * Snapshots of every slice, keyed by slice name
+     * With `withDerived`, slice snapshots include their derived values and the combined derived
+     * values are added at the top level.
+     */
+    getStateSnapshot: (opt?: { withDerived: boolean }) => {
+        [K in keyof TSlices]: SliceSnapshot<SliceStores<TSlices>[K]>;
+    };
+    /**
+     * Like `store.subscribe`, with the values of each slice under its name
+     *
+     * @example
+     * store.subscribe((state) => state.cart.items.length, (count) => console.log(count));
+     */
+    subscribe: <TSelected>(
+        selector: (state: CombinedStoreValues<TSlices, TDerived>) => TSelected,
+        listener: (next: TSelected, prev: TSelected) => void,
+        options?: SubscribeOptions<TSelected>
+    ) => () => void;
+    /**
+     * Disposes every slice store (but not the dependencies)
+     */
+    dispose: () => void;
+};
+
+const combinedStoreMethods = ["getStateSnapshot", "subscribe", "dispose"];
+
+/**
+ * Combines slices into one store with namespaced access
+ *
+ * Each slice is a store definition (see `defineStore`) with its own state, derived values,
+ * actions and plugins, and becomes its own store under the slice name. Derived values reading
+ * several slices, or other stores passed as `dependencies`, are declared on the combined store.
+ * Slice names, dependency names and combined derived keys must not collide with each other or
+ * with the combined store's methods.
+ *
+ * @example
+ * const store = combineSlices(
+ *   { products: productsSlice, cart: cartSlice },
+ *   {
+ *     dependencies: { user: userStore },
+ *     derived: {
+ *       cartTotal: ({ products, cart, user }) =>
+ *         cart.items.value.reduce((sum, id) => sum + products.productById.value(id).price, 0) *
+ *         (1 - user.discount.value),
+ *     },
+ *   }
+ * );
+ *
+ * store.products.sortedProducts.value;
+ * store.cart.actions.add("1");
+ * store.cartTotal.value;
+ *
+ * @param slices The slice definitions, keyed by slice name
+ * @param options Dependencies and derived values of the combined store
+ */
+export function combineSlices<
+    TSlices extends Record<string, StoreDefinition<any, any, any, any>>,
+    TDependencies extends Record<string, any> = Record<never, never>,
+    TDerived extends Record<string, any> = Record<never, never>,
+>(
+    slices: TSlices,
+    options: CombineSlicesOptions<TSlices, TDependencies, TDerived> = {}
+): CombinedStore<TSlices, TDerived> {
+    const {
+        dependencies = {} as TDependencies,
+        derived: derivedConfig = {} as CombinedDerived<
+            SliceStores<TSlices> & TDependencies,
+            TDerived
+        >,
+    } = options;
+
+    for (const name in slices) {
+        if (combinedStoreMethods.includes(name)) {
+            throw new Error(`Slice '${name}' conflicts with a store method`);
+        }
+    }
+    for (const name in dependencies) {
+        if (name in slices) {
+            throw new Error(`Dependency '${name}' conflicts with slice`);
+        }
+    }
+    for (const key in derivedConfig) {
+        if (key in slices) {
+            throw new Error(`Derived key '${key}' conflicts with slice`);
+        }
+        if (key in dependencies) {
+            throw new Error(`Derived key '${key}' conflicts with dependency`);
+        }
+        if (combinedStoreMethods.includes(key)) {
+            throw new Error(`Derived key '${key}' conflicts with a store method`);
+        }
+    }
+
+    const stores = {} as SliceStores<TSlices>;
+    for (const name in slices) {
+        stores[name] = slices[name].create();
+    }
+
+    const derived = {} as { [K in keyof TDerived]: ReadonlySignal<TDerived[K]> };
+    const derivedArgs = { ...stores, ...dependencies };
+    for (const key in derivedConfig) {
+        derived[key] = computed(() => derivedConfig[key](derivedArgs));
+    }
+
+    // Plain view used by subscribe selectors, each getter reads (and so tracks) a single signal
+    const values = {} as CombinedStoreValues<TSlices, TDerived>;
+    for (const name in stores) {
+        const store = stores[name] as Record<string, unknown>;
+        const sliceValues = {};
+        for (const key in store) {
+            if (store[key] instanceof Signal) {
+                Object.defineProperty(sliceValues, key, {
+                    enumerable: true,
+                    get: () => (store[key] as Signal).value,
+                });
+            }
+        }
+        Object.defineProperty(values, name, { enumerable: true, value: sliceValues });
+    }
+    for (const key in derived) {
+        Object.defineProperty(values, key, { enumerable: true, get: () => derived[key].value });
+    }
+
+    const getStateSnapshot = (opt?: { withDerived: boolean }) => {
+        const snapshot: Record<string, unknown> = {};
+        for (const name in stores) {
+            snapshot[name] = (stores[name] as SliceStore).getStateSnapshot(opt);
+        }
+        if (opt?.withDerived) {
+            for (const key in derived) {
+                snapshot[key] = derived[key].value;
+            }
+        }
+        return snapshot as ReturnType<CombinedStore<TSlices, TDerived>["getStateSnapshot"]>;
+    };
+
+    const subscriptions = new Set<() => void>();
+
+    const subscribe = <TSelected>(
+        selector: (state: CombinedStoreValues<TSlices, TDerived>) => TSelected,
+        listener: (next: TSelected, prev: TSelected) => void,
+        options?: SubscribeOptions<TSelected>
+    ) => {
+        const unsubscribe = subscribeToStore(values, selector, listener, options);
+        const cleanup = () => {
+            subscriptions.delete(cleanup);
+            unsubscribe();
+        };
+        subscriptions.add(cleanup);
+        return cleanup;
+    };
+
+    const dispose = () => {
+        for (const unsubscribe of [...subscriptions]) {
+            unsubscribe();
+        }
+        for (const name in stores) {
+            (stores[name] as SliceStore).dispose();
+        }
+    };
+
+    return {
+        ...stores,
+        ...derived,
+        getStateSnapshot,
+        subscribe,
+        dispose,
+    } as CombinedStore<TSlices, TDerived>;
+}
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { getServerState } from "./ssr";
+import { localStoragePlugin } from "./middleware/localStoragePlugin";
+import { indexedDBAdapter } from "./middleware/storageAdapters";
+import { createStore } from "./store";
+
+// the rest of the suites run in jsdom; these check what happens on the server, without a window
+describe("on the server", () => {
+    describe("getServerState", () => {
+        it("should return undefined", () => {
+            expect(getServerState("counter")).toBeUndefined();
+        });
+    });
+
+    describe("indexedDBAdapter", () => {
+        it("should behave like empty synchronous storage", () => {
+            const storage = indexedDBAdapter();
+            storage.setItem("cart", "[1]");
+            expect(storage.getItem("cart")).toBeNull();
+        });
+    });
+
+    describe("localStoragePlugin", () => {
+        let store: any, onError: jest.Mock;
+
+        beforeEach(() => {
+            onError = jest.fn();
+            store = createStore(
+                localStoragePlugin(
+                    { initialState: { sortBy: "name" } },
+                    { name: "products", onError, sync: true, debounce: 100 }
+                )
+            );
+            store.sortBy.value = "price";
+        });
+
+        afterEach(() => {
+            store.dispose();
+        });
+
+        it("should start from the initial state without reporting an error", () => {
+            expect(store.persist.hasHydrated.value).toBe(true);
+            expect(onError).not.toHaveBeenCalled();
+        });
+
+        it("should ignore writes", () => {
+            expect(() => store.persist.flush()).not.toThrow();
+            expect(onError).not.toHaveBeenCalled();
+        });
+    });
+});
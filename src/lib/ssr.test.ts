@@ -0,0 +1,153 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { defineStore, getServerState, serializeStoreState } from "./ssr";
+import { persistPlugin } from "./middleware/persistPlugin";
+import { memoryStorageAdapter } from "./middleware/storageAdapters";
+
+describe("ssr", () => {
+    describe("defineStore", () => {
+        let definition: any;
+
+        beforeEach(() => {
+            definition = defineStore({
+                initialState: { count: 0, label: "Count" },
+                actions: {
+                    increment: (state: any) => {
+                        state.count.value++;
+                    },
+                },
+            });
+        });
+
+        it("should create independent instances", () => {
+            const first = definition.create();
+            const second = definition.create();
+
+            first.actions.increment();
+
+            expect(first.count.value).toEqual(1);
+            expect(second.count.value).toEqual(0);
+        });
+
+        it("should start from the server state", () => {
+            const store = definition.create({ serverState: { count: 7 } });
+
+            expect(store.getStateSnapshot()).toEqual({ count: 7, label: "Count" });
+        });
+
+        it("should keep initialState as the reset target", () => {
+            const store = definition.create({ serverState: { count: 7 } });
+
+            store.resetState();
+
+            expect(store.count.value).toEqual(0);
+        });
+    });
+
+    describe("when the store is persisted", () => {
+        let storage: ReturnType<typeof memoryStorageAdapter>, resolveRead: (value: string) => void;
+
+        const definition = defineStore(() =>
+            persistPlugin(
+                { initialState: { count: 0, label: "Count" } },
+                { name: "counter", storage }
+            )
+        );
+
+        beforeEach(() => {
+            storage = memoryStorageAdapter({
+                counter: JSON.stringify({ state: { count: 5, label: "Stored" }, version: 0 }),
+            });
+        });
+
+        describe("and the server state wins", () => {
+            it("should keep the server values and persist them", () => {
+                const store = definition.create({ serverState: { count: 7 } });
+
+                expect(store.getStateSnapshot()).toEqual({ count: 7, label: "Stored" });
+                expect(JSON.parse(storage.items.get("counter")!).state).toEqual({
+                    count: 7,
+                    label: "Stored",
+                });
+            });
+
+            it("should put the server values back after an asynchronous hydration", async () => {
+                storage.getItem = () =>
+                    new Promise((resolve) => {
+                        resolveRead = resolve;
+                    });
+                const store: any = definition.create({ serverState: { count: 7 } });
+
+                resolveRead(JSON.stringify({ state: { count: 5, label: "Stored" }, version: 0 }));
+                await Promise.resolve();
+
+                expect(store.persist.hasHydrated.value).toBe(true);
+                expect(store.getStateSnapshot()).toEqual({ count: 7, label: "Stored" });
+            });
+        });
+
+        describe("and the persisted state wins", () => {
+            it("should use the stored values", () => {
+                const store = definition.create({
+                    serverState: { count: 7 },
+                    priority: "persisted",
+                });
+
+                expect(store.getStateSnapshot()).toEqual({ count: 5, label: "Stored" });
+            });
+
+            it("should keep server values for keys that aren't stored", () => {
+                storage.items.set(
+                    "counter",
+                    JSON.stringify({ state: { label: "Stored" }, version: 0 })
+                );
+
+                const store = definition.create({
+                    serverState: { count: 7 },
+                    priority: "persisted",
+                });
+
+                expect(store.getStateSnapshot()).toEqual({ count: 7, label: "Stored" });
+            });
+        });
+    });
+
+    describe("serializeStoreState", () => {
+        it("should serialize the state of every store by name", () => {
+            const store = defineStore({ initialState: { count: 3 } }).create();
+
+            expect(JSON.parse(serializeStoreState({ counter: store }))).toEqual({
+                counter: { count: 3 },
+            });
+        });
+
+        it("should escape markup so the state can't close the script tag", () => {
+            const store = defineStore({
+                initialState: { label: "</script><script>alert(1)</script>" },
+            }).create();
+
+            const serialized = serializeStoreState({ counter: store });
+
+            expect(serialized).not.toContain("</script>");
+            expect(JSON.parse(serialized).counter.label).toEqual(
+                "</script><script>alert(1)</script>"
+            );
+        });
+    });
+
+    describe("getServerState", () => {
+        afterEach(() => {
+            delete window.__BEACON_STATE__;
+        });
+
+        it("should return undefined when the page has no embedded state", () => {
+            expect(getServerState("counter")).toBeUndefined();
+        });
+
+        it("should read the embedded state of the store", () => {
+            window.__BEACON_STATE__ = { counter: { count: 3 } };
+
+            expect(getServerState("counter")).toEqual({ count: 3 });
+            expect(getServerState("other")).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,223 @@
+/* eslint-disable @typescript-eslint/no-empty-object-type */
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { effect } from "@preact/signals-react";
+import {
+    BeaconState,
+    ComposedStoreConfig,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    ReadonlyStore,
+    Store,
+    StoreConfig,
+    StoreOptions,
+} from "./types";
+import { createStore } from "./store";
+import { WithPersist } from "./middleware/persistPlugin";
+
+declare global {
+    interface Window {
+        /**
+         * Server-rendered state snapshots, keyed by store name (see `serializeStoreState`)
+         */
+        __BEACON_STATE__?: Record<string, unknown>;
+    }
+}
+
+/**
+ * Options for creating a store instance from a definition
+ *
+ * @template TState The state object type
+ */
+export interface CreateStoreOptions<TState extends Record<string, any>> {
+    /**
+     * State rendered on the server (see `serializeStoreState` and `getServerState`)
+     * The store starts with these values, before any persistence plugin applies stored state.
+     */
+    serverState?: Partial<TState>;
+
+    /**
+     * Which values win for keys that are both in `serverState` and in persisted storage
+     * - `server`: the server values are kept and then persisted. The first client render matches
+     *   the server-rendered HTML, so React hydration doesn't mismatch.
+     * - `persisted`: the stored values replace the server values (with an asynchronous adapter,
+     *   once hydration completes)
+     * Keys missing from `serverState` always come from storage.
+     * @default "server"
+     */
+    priority?: "server" | "persisted";
+}
+
+/**
+ * A store blueprint that creates fresh, independent store instances
+ */
+export interface StoreDefinition<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TStore = Store<TState, TDerived, TActions>,
+> {
+    /**
+     * Creates a new store instance (e.g. one per server request, or one in the browser)
+     */
+    create: (options?: CreateStoreOptions<TState>) => TStore;
+}
+
+/**
+ * Defines a store without creating it, so each server request can get its own instance
+ *
+ * Plugins keep their bookkeeping per store (see `ActionCall.store`), so a plugin-wrapped config
+ * can be shared by every instance. Pass a function building the config when it should be built
+ * again for each instance, e.g. so persistence plugins read the stored state anew.
+ *
+ * @example
+ * export const counterStore = defineStore(() =>
+ *   localStoragePlugin({ initialState: { count: 0 } }, { name: "counter" })
+ * );
+ *
+ * // server, per request
+ * const store = counterStore.create();
+ * const html = renderToString(<App store={store} />);
+ * const script = `<script>window.__BEACON_STATE__ = ${serializeStoreState({ counter: store })}</script>`;
+ *
+ * // client
+ * const store = counterStore.create({ serverState: getServerState("counter") });
+ *
+ * @param config The store config, or a function building it for each instance
+ * @param storeOptions Options passed to `createStore` for every instance (e.g. strict mode)
+ */
+export function defineStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+    TExtensions extends object = {},
+>(
+    config:
+        | ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>
+        | (() => ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>),
+    storeOptions: StoreOptions & { strict: true }
+): StoreDefinition<
+    TState,
+    TDerived,
+    TActions,
+    ReadonlyStore<TState, TDerived, TActions, TFamilies> & TExtensions
+>;
+export function defineStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+    TExtensions extends object = {},
+>(
+    config:
+        | ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>
+        | (() => ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>),
+    storeOptions?: StoreOptions
+): StoreDefinition<
+    TState,
+    TDerived,
+    TActions,
+    Store<TState, TDerived, TActions, TFamilies> & TExtensions
+>;
+export function defineStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config:
+        | StoreConfig<TState, TDerived, TActions, TFamilies>
+        | (() => StoreConfig<TState, TDerived, TActions, TFamilies>),
+    storeOptions: StoreOptions = {}
+): StoreDefinition<TState, TDerived, TActions> {
+    return {
+        create: (options = {}) => {
+            const { serverState, priority = "server" } = options;
+            const instanceConfig = typeof config === "function" ? config() : config;
+            if (!serverState) {
+                return createStore(instanceConfig, storeOptions);
+            }
+
+            // synchronously persisted values are already in hydratedState at this point
+            const hydratedState =
+                priority === "server"
+                    ? { ...instanceConfig.hydratedState, ...serverState }
+                    : { ...serverState, ...instanceConfig.hydratedState };
+
+            const originalOnStoreCreated = instanceConfig.onStoreCreated;
+
+            const newOnStoreCreated = (store: Store<TState, TDerived, TActions, TFamilies>) => {
+                // Call the original onStoreCreated if it exists
+                const cleanupOriginal = originalOnStoreCreated
+                    ? originalOnStoreCreated(store)
+                    : undefined;
+
+                // an asynchronous adapter hydrates later and would overwrite the server values,
+                // so put them back as soon as it's done (before queued actions replay)
+                const { persist } = store as Partial<WithPersist>;
+                let disposeEffect: (() => void) | undefined;
+                if (priority === "server" && persist && !persist.hasHydrated.peek()) {
+                    disposeEffect = effect(() => {
+                        if (persist.hasHydrated.value) {
+                            store.setState(serverState);
+                        }
+                    });
+                }
+
+                return () => {
+                    if (disposeEffect) {
+                        disposeEffect();
+                    }
+                    if (cleanupOriginal) {
+                        cleanupOriginal();
+                    }
+                };
+            };
+
+            return createStore(
+                { ...instanceConfig, hydratedState, onStoreCreated: newOnStoreCreated },
+                storeOptions
+            );
+        },
+    };
+}
+
+/**
+ * Serializes the state of several stores, keyed by name, for embedding in server-rendered HTML
+ * The result is safe to place inside an inline `<script>` (closing tags and line separators are
+ * escaped). Only state is included, derived values are recomputed on the client.
+ *
+ * @example
+ * `<script>window.__BEACON_STATE__ = ${serializeStoreState({ productList: store })}</script>`
+ */
+export function serializeStoreState(
+    stores: Record<string, { getStateSnapshot: () => Record<string, any> }>
+): string {
+    const snapshots: Record<string, unknown> = {};
+    for (const name in stores) {
+        snapshots[name] = stores[name].getStateSnapshot();
+    }
+    return JSON.stringify(snapshots)
+        .replace(/</g, "\\u003c")
+        .replace(/>/g, "\\u003e")
+        .replace(/&/g, "\\u0026")
+        .replace(/\u2028/g, "\\u2028")
+        .replace(/\u2029/g, "\\u2029");
+}
+
+/**
+ * Reads the server-rendered state of a store embedded by `serializeStoreState`
+ * Returns undefined on the server, or when the page has no state for the store.
+ *
+ * @param name The name the store was serialized under
+ */
+export function getServerState<TState extends Record<string, any>>(
+    name: string
+): Partial<TState> | undefined {
+    if (typeof window === "undefined") {
+        return undefined;
+    }
+    return window.__BEACON_STATE__?.[name] as Partial<TState> | undefined;
+}
@@ -1,19 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-const mockSigReact = { computed: jest.fn(), signal: jest.fn() };
-jest.mock("@preact/signals-react", () => {
-    return mockSigReact;
-});
+import { effect, Signal } from "@preact/signals-react";
+import * as storeModule from "./store";
 
 describe("store", () => {
-    let storeModule: { createStore: any }, storeInstance: any;
-
-    beforeEach(async () => {
-        mockSigReact.computed.mockImplementation((cb) => cb);
-        mockSigReact.signal.mockImplementation((val) => {
-            return { value: val };
-        });
-        storeModule = await import("./store");
-    });
+    let storeInstance: any;
 
     describe("with initial state", () => {
         beforeEach(() => {
@@ -21,37 +11,30 @@ describe("store", () => {
         });
 
         it("should create signals for each state property", () => {
-            expect(mockSigReact.signal).toHaveBeenCalledWith("bar");
+            expect(storeInstance.foo).toBeInstanceOf(Signal);
         });
 
         it("should export the created signal as state on the store instance", () => {
-            expect(storeInstance.foo).toEqual({ value: "bar" });
+            expect(storeInstance.foo.value).toEqual("bar");
         });
     });
 
     describe("with derived state", () => {
         describe("when the derived state key has no conflicts with state", () => {
-            let computedVal: any;
-
             beforeEach(() => {
-                mockSigReact.computed.mockReset();
-                mockSigReact.computed.mockImplementationOnce((cb) => {
-                    computedVal = cb();
-                    return { value: computedVal };
-                });
                 storeInstance = storeModule.createStore({
                     initialState: { foo: "bar" },
                     derived: { derivedFoo: (state: any) => state.foo.value.toUpperCase() },
                 });
             });
 
-            it("should create a dervied state prop called derivedFoo", () => {
-                expect(mockSigReact.computed).toHaveBeenCalledWith(expect.any(Function));
-                expect(computedVal).toEqual("BAR");
+            it("should create a derived state prop called derivedFoo", () => {
+                expect(storeInstance.derivedFoo.value).toEqual("BAR");
             });
 
-            it("should export the created signal as state on the store instance", () => {
-                expect(storeInstance.derivedFoo).toEqual({ value: "BAR" });
+            it("should update the derived value when the state changes", () => {
+                storeInstance.foo.value = "baz";
+                expect(storeInstance.derivedFoo.value).toEqual("BAZ");
             });
         });
 
@@ -67,16 +50,71 @@ describe("store", () => {
         });
     });
 
-    describe("with actions", () => {
-        let mockSignal: any;
+    describe("with derived families", () => {
+        const config = {
+            initialState: { prices: { a: 1, b: 2, c: 3 } as Record<string, number> },
+            derived: { total: (state: any) => Object.keys(state.prices.value).length },
+            derivedFamilies: {
+                priceOf: (state: any, id: string) => state.prices.value[id],
+            },
+        };
 
-        beforeEach(() => {
-            mockSigReact.signal.mockReset();
-            mockSignal = { value: "" };
-            mockSigReact.signal.mockImplementation((val) => {
-                mockSignal.value = val;
-                return mockSignal;
+        describe("when the family keys have no conflicts", () => {
+            beforeEach(() => {
+                storeInstance = storeModule.createStore(config, { familyCacheSize: 2 });
+            });
+
+            it("should return a computed signal for the given arguments", () => {
+                expect(storeInstance.priceOf("b").value).toBe(2);
+            });
+
+            it("should return the cached signal for the same arguments", () => {
+                expect(storeInstance.priceOf("a")).toBe(storeInstance.priceOf("a"));
+                expect(storeInstance.priceOf("a")).not.toBe(storeInstance.priceOf("b"));
+            });
+
+            it("should drop the least recently used signal once the cache is full", () => {
+                const a = storeInstance.priceOf("a");
+                const b = storeInstance.priceOf("b");
+                storeInstance.priceOf("a");
+                storeInstance.priceOf("c");
+
+                expect(storeInstance.priceOf("a")).toBe(a);
+                expect(storeInstance.priceOf("b")).not.toBe(b);
+            });
+
+            it("should include the family in snapshots with derived values", () => {
+                const snapshot = storeInstance.getStateSnapshot({ withDerived: true });
+
+                expect(snapshot.priceOf("c")).toBe(3);
+            });
+        });
+
+        describe("when a family key conflicts with state", () => {
+            it("should throw an error", () => {
+                expect(() =>
+                    storeModule.createStore({
+                        ...config,
+                        derivedFamilies: { prices: config.derivedFamilies.priceOf },
+                    })
+                ).toThrow("Derived family 'prices' conflicts with state signal");
+            });
+        });
+
+        describe("when a family key conflicts with a derived value", () => {
+            it("should throw an error", () => {
+                expect(() =>
+                    storeModule.createStore({
+                        ...config,
+                        derivedFamilies: { total: config.derivedFamilies.priceOf },
+                    })
+                ).toThrow("Derived family 'total' conflicts with derived value");
             });
+        });
+    });
+
+    describe("with actions", () => {
+        beforeEach(() => {
             storeInstance = storeModule.createStore({
                 initialState: { foo: "bar" },
                 actions: {
@@ -89,7 +127,154 @@ describe("store", () => {
         });
 
         it("should create action functions that modify state", () => {
-            expect(mockSignal.value).toEqual("baz");
+            expect(storeInstance.foo.value).toEqual("baz");
+        });
+    });
+
+    describe("with action middleware", () => {
+        let calls: string[];
+
+        const createCounter = (actionMiddleware: any[]) =>
+            storeModule.createStore({
+                initialState: { count: 0 },
+                actions: {
+                    add: (state: any, amount: number) => {
+                        calls.push(`add:${amount}`);
+                        state.count.value += amount;
+                        return state.count.value;
+                    },
+                    fail: () => {
+                        throw new Error("nope");
+                    },
+                    async addLater(this: any, _state: any, amount: number) {
+                        await Promise.resolve();
+                        return this.actions.add(amount);
+                    },
+                },
+                actionMiddleware,
+            });
+
+        beforeEach(() => {
+            calls = [];
+        });
+
+        describe("when the hooks observe the call", () => {
+            let outcome: any, result: any;
+
+            beforeEach(() => {
+                storeInstance = createCounter([
+                    {
+                        before: (call: any) => calls.push(`before:${call.name}`),
+                        around: (_call: any, next: any) => {
+                            calls.push("around:enter");
+                            const res = next();
+                            calls.push("around:exit");
+                            return res;
+                        },
+                        after: (o: any) => {
+                            outcome = o;
+                        },
+                    },
+                ]);
+                result = storeInstance.actions.add(2);
+            });
+
+            it("should run the hooks around the action in order", () => {
+                expect(calls).toEqual(["before:add", "around:enter", "add:2", "around:exit"]);
+            });
+
+            it("should return the action's result to the caller", () => {
+                expect(result).toEqual(2);
+            });
+
+            it("should hand before/after snapshots and the result to after hooks", () => {
+                expect(outcome).toEqual({
+                    name: "add",
+                    args: [2],
+                    stateBefore: { count: 0 },
+                    store: storeInstance,
+                    stateAfter: { count: 2 },
+                    result: 2,
+                    error: undefined,
+                    cancelled: false,
+                });
+            });
+        });
+
+        it("should tell middleware which action made a call, also after an await", async () => {
+            const seen: any[] = [];
+            storeInstance = createCounter([{ before: (call: any) => seen.push(call) }]);
+
+            await storeInstance.actions.addLater(2);
+
+            expect(seen.map((call) => [call.name, call.parent?.name])).toEqual([
+                ["addLater", undefined],
+                ["add", "addLater"],
+            ]);
+        });
+
+        describe("when a before hook vetoes the call", () => {
+            let outcome: any;
+
+            beforeEach(() => {
+                storeInstance = createCounter([
+                    { before: () => false },
+                    { after: (o: any) => (outcome = o) },
+                ]);
+                storeInstance.actions.add(2);
+            });
+
+            it("should not run the action", () => {
+                expect(calls).toEqual([]);
+                expect(storeInstance.count.value).toEqual(0);
+            });
+
+            it("should report the call as cancelled", () => {
+                expect(outcome.cancelled).toBe(true);
+            });
+
+            it("should return the result the hook set", () => {
+                storeInstance = createCounter([
+                    {
+                        before: (call: any) => {
+                            call.result = "deferred";
+                            return false;
+                        },
+                    },
+                ]);
+                expect(storeInstance.actions.add(2)).toBe("deferred");
+            });
+        });
+
+        describe("when middleware rewrite the arguments", () => {
+            beforeEach(() => {
+                storeInstance = createCounter([
+                    {
+                        before: (call: any) => {
+                            call.args = [call.args[0] * 10];
+                        },
+                    },
+                    { around: (call: any, next: any) => next([call.args[0] + 1]) },
+                ]);
+                storeInstance.actions.add(2);
+            });
+
+            it("should call the action with the rewritten arguments", () => {
+                expect(calls).toEqual(["add:21"]);
+            });
+        });
+
+        describe("when the action throws", () => {
+            let outcome: any;
+
+            beforeEach(() => {
+                storeInstance = createCounter([{ after: (o: any) => (outcome = o) }]);
+            });
+
+            it("should report the error to after hooks and re-throw it", () => {
+                expect(() => storeInstance.actions.fail()).toThrow("nope");
+                expect(outcome.error).toEqual(new Error("nope"));
+            });
         });
     });
 
@@ -110,14 +295,7 @@ describe("store", () => {
         });
 
         describe("when called with { withDerived: true }", () => {
-            let computedVal: any;
-
             beforeEach(() => {
-                mockSigReact.computed.mockReset();
-                mockSigReact.computed.mockImplementationOnce((cb) => {
-                    computedVal = cb();
-                    return { value: computedVal };
-                });
                 storeInstance = storeModule.createStore({
                     initialState: { foo: "bar", baz: "qux" },
                     derived: { derivedFoo: (state: any) => state.foo.value.toUpperCase() },
@@ -130,4 +308,321 @@ describe("store", () => {
             });
         });
     });
+
+    describe("with hydrated state", () => {
+        beforeEach(() => {
+            storeInstance = storeModule.createStore({
+                initialState: { foo: "bar", baz: "qux" },
+                hydratedState: { foo: "stored" },
+            });
+        });
+
+        it("should start with the hydrated values", () => {
+            expect(storeInstance.getStateSnapshot()).toEqual({ foo: "stored", baz: "qux" });
+        });
+    });
+
+    describe("with setState", () => {
+        beforeEach(() => {
+            storeInstance = storeModule.createStore({ initialState: { foo: "bar", count: 1 } });
+        });
+
+        describe("when called with a partial state", () => {
+            let runs: string[], stop: () => void;
+
+            beforeEach(() => {
+                runs = [];
+                stop = effect(() => {
+                    runs.push(`${storeInstance.foo.value}:${storeInstance.count.value}`);
+                });
+                storeInstance.setState({ foo: "baz", count: 2, notAKey: true });
+            });
+
+            afterEach(() => {
+                stop();
+            });
+
+            it("should update the given keys in a single batch", () => {
+                expect(runs).toEqual(["bar:1", "baz:2"]);
+                expect(storeInstance.getStateSnapshot()).toEqual({ foo: "baz", count: 2 });
+            });
+
+            it("should ignore keys that aren't state", () => {
+                expect(storeInstance.notAKey).toBeUndefined();
+            });
+        });
+
+        describe("when called with an updater", () => {
+            beforeEach(() => {
+                storeInstance.setState((state: any) => ({ count: state.count + 1 }));
+            });
+
+            it("should apply what the updater returns", () => {
+                expect(storeInstance.count.value).toEqual(2);
+            });
+        });
+    });
+
+    describe("with resetState", () => {
+        beforeEach(() => {
+            storeInstance = storeModule.createStore({
+                initialState: { foo: "bar", count: 1 },
+                hydratedState: { foo: "stored" },
+            });
+            storeInstance.count.value = 5;
+        });
+
+        it("should reset every key to its initial value", () => {
+            storeInstance.resetState();
+            expect(storeInstance.getStateSnapshot()).toEqual({ foo: "bar", count: 1 });
+        });
+
+        it("should only reset the given keys", () => {
+            storeInstance.resetState(["count"]);
+            expect(storeInstance.getStateSnapshot()).toEqual({ foo: "stored", count: 1 });
+        });
+    });
+
+    describe("with dispose", () => {
+        let cleanup: jest.Mock;
+
+        beforeEach(() => {
+            cleanup = jest.fn();
+            storeInstance = storeModule.createStore({
+                initialState: { foo: "bar" },
+                onStoreCreated: () => cleanup,
+            });
+            storeInstance.dispose();
+            storeInstance.dispose();
+        });
+
+        it("should run the cleanup returned by onStoreCreated once", () => {
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("in strict mode", () => {
+        let resolveLoad: () => void;
+
+        beforeEach(() => {
+            storeInstance = storeModule.createStore(
+                {
+                    initialState: { foo: "bar" },
+                    actions: {
+                        setFoo: (state: any, foo: string) => {
+                            state.foo.value = foo;
+                        },
+                        load: async (state: any) => {
+                            await new Promise<void>((resolve) => {
+                                resolveLoad = resolve;
+                            });
+                            state.foo.value = "loaded";
+                        },
+                    },
+                },
+                { strict: true }
+            );
+        });
+
+        it("should throw when state is written outside of an action", () => {
+            expect(() => {
+                storeInstance.foo.value = "baz";
+            }).toThrow("Cannot write 'foo' outside of an action in strict mode");
+            expect(storeInstance.foo.value).toEqual("bar");
+        });
+
+        it("should allow writes from actions and setState", () => {
+            storeInstance.actions.setFoo("baz");
+            expect(storeInstance.foo.value).toEqual("baz");
+
+            storeInstance.setState({ foo: "qux" });
+            expect(storeInstance.foo.value).toEqual("qux");
+        });
+
+        it("should let an async action write after an await", async () => {
+            const loading = storeInstance.actions.load();
+            resolveLoad();
+            await loading;
+
+            expect(storeInstance.foo.value).toEqual("loaded");
+            expect(() => {
+                storeInstance.foo.value = "baz";
+            }).toThrow();
+        });
+
+        it("should throw on writes outside of it while an async action is pending", async () => {
+            const loading = storeInstance.actions.load();
+
+            expect(() => {
+                storeInstance.foo.value = "baz";
+            }).toThrow("Cannot write 'foo' outside of an action in strict mode");
+            resolveLoad();
+            await loading;
+            expect(storeInstance.foo.value).toEqual("loaded");
+        });
+
+        describe("when running in production", () => {
+            const nodeEnv = process.env.NODE_ENV;
+
+            beforeEach(() => {
+                process.env.NODE_ENV = "production";
+                jest.spyOn(console, "warn").mockImplementation(() => {});
+                storeInstance.foo.value = "baz";
+            });
+
+            afterEach(() => {
+                process.env.NODE_ENV = nodeEnv;
+                jest.mocked(console.warn).mockRestore();
+            });
+
+            it("should only warn", () => {
+                expect(storeInstance.foo.value).toEqual("baz");
+                expect(console.warn).toHaveBeenCalledWith(
+                    "Cannot write 'foo' outside of an action in strict mode"
+                );
+            });
+        });
+    });
+
+    describe("with effects", () => {
+        let runs: number[], cleanup: jest.Mock;
+
+        beforeEach(() => {
+            runs = [];
+            cleanup = jest.fn();
+            storeInstance = storeModule.createStore({
+                initialState: { count: 0, evenCount: 0 },
+                actions: {
+                    increment: (state: any) => {
+                        state.count.value++;
+                    },
+                    countEven: (state: any) => {
+                        state.evenCount.value++;
+                    },
+                },
+                effects: {
+                    logCount: (state: any) => {
+                        runs.push(state.count.value);
+                        return cleanup;
+                    },
+                    // calls an action that reads and writes state it doesn't depend on
+                    trackEven: (state: any, actions: any) => {
+                        if (state.count.value % 2 === 0) {
+                            actions.countEven();
+                        }
+                    },
+                },
+            });
+        });
+
+        it("should run each effect when the store is created", () => {
+            expect(runs).toEqual([0]);
+            expect(storeInstance.effects.logCount.isRunning.value).toBe(true);
+        });
+
+        it("should re-run when the state it read changes, cleaning up first", () => {
+            storeInstance.actions.increment();
+
+            expect(runs).toEqual([0, 1]);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it("should only depend on the state read by the effect itself", () => {
+            storeInstance.actions.increment();
+            storeInstance.actions.increment();
+
+            expect(storeInstance.evenCount.value).toEqual(2);
+        });
+
+        describe("when an effect is paused", () => {
+            beforeEach(() => {
+                storeInstance.effects.logCount.pause();
+                storeInstance.actions.increment();
+            });
+
+            it("should stop running and clean up", () => {
+                expect(runs).toEqual([0]);
+                expect(cleanup).toHaveBeenCalledTimes(1);
+                expect(storeInstance.effects.logCount.isRunning.value).toBe(false);
+            });
+
+            it("should keep the other effects running", () => {
+                expect(storeInstance.effects.trackEven.isRunning.value).toBe(true);
+            });
+
+            it("should run again with the latest state once resumed", () => {
+                storeInstance.effects.logCount.resume();
+
+                expect(runs).toEqual([0, 1]);
+                expect(storeInstance.effects.logCount.isRunning.value).toBe(true);
+            });
+        });
+
+        describe("when the store is disposed", () => {
+            beforeEach(() => {
+                storeInstance.dispose();
+                storeInstance.effects.logCount.resume();
+                storeInstance.actions.increment();
+            });
+
+            it("should stop every effect for good", () => {
+                expect(runs).toEqual([0]);
+                expect(cleanup).toHaveBeenCalledTimes(1);
+                expect(storeInstance.effects.logCount.isRunning.value).toBe(false);
+            });
+        });
+    });
+
+    describe("with an action context", () => {
+        let runs: number[];
+
+        beforeEach(() => {
+            runs = [];
+            storeInstance = storeModule.createStore({
+                initialState: { count: 0, step: 1 },
+                derived: {
+                    doubled: (state: any) => state.count.value * 2,
+                },
+                actions: {
+                    setStep: (state: any, step: number) => {
+                        state.step.value = step;
+                    },
+                    increment(state: any) {
+                        state.count.value += state.step.value;
+                        return state.count.value;
+                    },
+                    incrementBy(this: any, _state: any, step: number) {
+                        this.actions.setStep(step);
+                        this.actions.increment();
+                        return {
+                            doubled: this.derived.doubled.value,
+                            snapshot: this.getStateSnapshot(),
+                        };
+                    },
+                },
+                effects: {
+                    logCount: (state: any) => {
+                        runs.push(state.count.value * 10 + state.step.value);
+                    },
+                },
+            });
+        });
+
+        it("should return the action's result", () => {
+            expect(storeInstance.actions.increment()).toEqual(1);
+        });
+
+        it("should let actions call other actions and read derived values", () => {
+            expect(storeInstance.actions.incrementBy(5)).toEqual({
+                doubled: 10,
+                snapshot: { count: 5, step: 5 },
+            });
+        });
+
+        it("should notify effects once per top-level action", () => {
+            storeInstance.actions.incrementBy(5);
+
+            expect(runs).toEqual([1, 55]);
+        });
+    });
 });
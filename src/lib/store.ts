@@ -1,7 +1,38 @@
 /* eslint-disable @typescript-eslint/no-empty-object-type */
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { computed, ReadonlySignal, signal } from "@preact/signals-react";
-import { BeaconState, StoreConfig, ActionParameters, Store } from "./types";
+import {
+    batch,
+    computed,
+    effect,
+    ReadonlySignal,
+    Signal,
+    signal,
+    untracked,
+} from "@preact/signals-react";
+import {
+    ActionCall,
+    ActionContext,
+    ActionStatus,
+    BeaconState,
+    ComposedStoreConfig,
+    DerivedFamily,
+    EmptyFamilies,
+    FamilySignals,
+    StoreConfig,
+    BoundActions,
+    EffectControls,
+    ReadonlyStore,
+    Store,
+    StoreOptions,
+    StoreValues,
+    SubscribeOptions,
+} from "./types";
+import { runActionPipeline } from "./actionPipeline";
+import { createActionInvoker, createActionStatus } from "./asyncAction";
+import { subscribeToStore } from "./subscribe";
+import { createSignalCache } from "./signalCache";
+import { createTransactionLog, isOptimisticAction } from "./optimisticAction";
+import { writableSignal } from "./writableSignal";
 
 /**
  * Creates a reactive state management store using Preact signals
@@ -9,11 +40,52 @@ import { BeaconState, StoreConfig, ActionParameters, Store } from "./types";
  * This function creates a store with three main features:
  * 1. State signals: Reactive state values that trigger updates when changed
  * 2. Derived values: Computed values that depend on state signals
- * 3. Actions: Functions that can update multiple state values together
+ * 3. Actions: Functions that can update multiple state values together, in a single batch
+ *
+ * Derived families (`config.derivedFamilies`) become store methods returning a computed signal
+ * per argument list, e.g. `store.productById(id)`. The signals are cached, least recently used
+ * first out, up to `options.familyCacheSize` per family.
+ *
+ * Every action call runs through `config.actionMiddleware` (if any), which can observe,
+ * rewrite or veto the call. Actions returning a promise get status signals under
+ * `store.status.<action>` (see `asyncAction`). Calls of optimistic actions are tracked in
+ * `store.transactions` (see `optimisticAction`).
+ *
+ * Members added by plugins composed with `compose` are part of the returned store type.
+ *
+ * In strict mode (`options.strict`) the state signals can only be written while an action runs
+ * (or through `setState`); other writes throw in development and warn in production.
  *
  * @param config The store configuration object containing initial state, derived values, and actions
+ * @param options Store options, e.g. strict mode
  * @returns An object containing state signals, derived values, actions, and a snapshot function
  */
+export function createStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = Record<
+        never,
+        (state: BeaconState<TState>) => any
+    >,
+    TActions extends Record<string, (...args: any[]) => any> = {},
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+    TExtensions extends object = {},
+>(
+    config: ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>,
+    options: StoreOptions & { strict: true }
+): ReadonlyStore<TState, TDerived, TActions, TFamilies> & TExtensions;
+export function createStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = Record<
+        never,
+        (state: BeaconState<TState>) => any
+    >,
+    TActions extends Record<string, (...args: any[]) => any> = {},
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+    TExtensions extends object = {},
+>(
+    config: ComposedStoreConfig<TState, TDerived, TActions, TFamilies, TExtensions>,
+    options?: StoreOptions
+): Store<TState, TDerived, TActions, TFamilies> & TExtensions;
 export function createStore<
     // Base state type
     TState extends Record<string, any>,
@@ -24,11 +96,34 @@ export function createStore<
     >,
     // Type for action methods
     TActions extends Record<string, (...args: any[]) => any> = {},
->(config: StoreConfig<TState, TDerived, TActions>): Store<TState, TDerived, TActions> {
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options: StoreOptions = {}
+): Store<TState, TDerived, TActions, TFamilies> {
+    // writes are allowed while this is above zero (only enforced in strict mode)
+    let writeDepth = 0;
+    const allowingWrites = <T>(write: () => T) => {
+        writeDepth++;
+        try {
+            return write();
+        } finally {
+            writeDepth--;
+        }
+    };
+
     // Create signal objects for each state property
     const stateSignals: BeaconState<TState> = {} as BeaconState<TState>;
-    for (const key in config.initialState) {
-        stateSignals[key] = signal(config.initialState[key]);
+    // what actions get to write through; in strict mode only they can write, even after an await
+    const actionState: BeaconState<TState> = {} as BeaconState<TState>;
+    const startingState = { ...config.initialState, ...config.hydratedState };
+    for (const key in startingState) {
+        stateSignals[key] = signal(startingState[key]);
+        actionState[key] = stateSignals[key];
+        if (options.strict) {
+            guardWrites(stateSignals[key], key, () => writeDepth > 0);
+            actionState[key] = writableSignal(stateSignals[key], allowingWrites);
+        }
     }
 
     // Create computed/derived values based on state signals
@@ -46,16 +141,99 @@ export function createStore<
         }
     }
 
+    // Create derived families, each returning a cached computed signal per argument list
+    const families = {} as FamilySignals<TFamilies>;
+    const familyCaches: { clear: () => void }[] = [];
+    const { familyCacheSize = 500 } = options;
+    if (config.derivedFamilies) {
+        for (const key in config.derivedFamilies) {
+            if (key in stateSignals) {
+                throw new Error(`Derived family '${key}' conflicts with state signal`);
+            }
+            if (key in derived) {
+                throw new Error(`Derived family '${key}' conflicts with derived value`);
+            }
+            const family = config.derivedFamilies[key];
+            const cache = createSignalCache<ReadonlySignal<any>>(familyCacheSize);
+            familyCaches.push(cache);
+            families[key] = ((...args: any[]) =>
+                cache.get(JSON.stringify(args), () =>
+                    computed(() => family(stateSignals, ...args))
+                )) as FamilySignals<TFamilies>[typeof key];
+        }
+    }
+
+    // the plain-value form of a family, as seen by subscribe selectors and snapshots
+    const familyValue =
+        (key: keyof TFamilies) =>
+        (...args: any[]) =>
+            (families[key] as (...args: any[]) => ReadonlySignal<any>)(...args).value;
+
     // Create action functions that can modify the state
-    const actions = {} as {
-        [K in keyof TActions]: (...args: ActionParameters<TActions[K]>) => void;
+    const actions = {} as BoundActions<TActions>;
+    const statuses: Record<string, ActionStatus> = {};
+    const context: ActionContext<TState, TDerived, TActions> = {
+        actions,
+        derived,
+        getStateSnapshot: (opt) => getStateSnapshot(opt),
+    };
+    const actionMiddleware = config.actionMiddleware ?? [];
+    const transactionLog = createTransactionLog(actionState);
+    // the action call on whose behalf the next call of `store.actions` is made
+    let callingParent: ActionCall<TState> | undefined;
+    // the `this` of an action call: the actions it calls are called on its behalf, even after
+    // an await, so middleware can tell them apart from calls made from outside. They still go
+    // through `store.actions`, so whatever replaced one there (e.g. a test spy) sees them too.
+    const contextOf = (call: ActionCall<TState>): ActionContext<TState, TDerived, TActions> => {
+        const calledActions = {} as BoundActions<TActions>;
+        for (const name in actions) {
+            calledActions[name] = ((...args: any[]) => {
+                callingParent = call;
+                try {
+                    return (actions[name] as (...args: any[]) => unknown)(...args);
+                } finally {
+                    callingParent = undefined;
+                }
+            }) as any;
+        }
+        return { ...context, actions: calledActions };
     };
     if (config.actions) {
         for (const actionName in config.actions) {
             // Wrap each action function to provide access to state signals
-            actions[actionName as keyof TActions] = (...args) => {
-                config.actions![actionName](stateSignals, ...args);
-            };
+            const { status, track } = createActionStatus();
+            statuses[actionName] = status;
+            const action = config.actions[actionName];
+            const invoke = (
+                isOptimisticAction(action)
+                    ? transactionLog.createInvoker(actionName, action, context, track)
+                    : createActionInvoker(action, actionState, context, track)
+            ) as (args: any[], callContext?: ActionContext<TState, TDerived, TActions>) => any;
+            // derived values and effects update once, after the whole action ran
+            const invokeAllowingWrites = (
+                args: any[],
+                callContext?: ActionContext<TState, TDerived, TActions>
+            ) => allowingWrites(() => batch(() => invoke(args, callContext)));
+            actions[actionName as keyof TActions] = ((...args: any[]) => {
+                const parent = callingParent;
+                callingParent = undefined;
+                // untracked, so calling an action from an effect doesn't subscribe it to what the action reads
+                return untracked(() => {
+                    // skip the snapshot bookkeeping entirely when nothing is listening
+                    if (!actionMiddleware.length) {
+                        return invokeAllowingWrites(args);
+                    }
+                    return runActionPipeline(
+                        actionMiddleware,
+                        actionName,
+                        args,
+                        (nextArgs, call) => invokeAllowingWrites(nextArgs, contextOf(call)),
+                        () => getStateSnapshot(),
+                        store,
+                        parent
+                    );
+                });
+            }) as any;
         }
     }
 
@@ -74,21 +252,160 @@ export function createStore<
             for (const key in derived) {
                 state[key] = derived[key].value;
             }
+            for (const key in families) {
+                (state as Record<string, unknown>)[key] = familyValue(key);
+            }
         }
 
         return state as TState;
     };
 
-    const store = { ...stateSignals, ...derived, actions, getStateSnapshot } as Store<
-        TState,
-        TDerived,
-        TActions
-    >;
+    // Plain view for selectors (subscribe, useStore), each getter reads (and tracks) one signal
+    const values = {} as StoreValues<TState, TDerived, TFamilies>;
+    for (const key of [...Object.keys(stateSignals), ...Object.keys(derived)]) {
+        Object.defineProperty(values, key, {
+            enumerable: true,
+            get: () => (stateSignals[key] ?? derived[key]).value,
+        });
+    }
+    for (const key in families) {
+        Object.defineProperty(values, key, { enumerable: true, value: familyValue(key) });
+    }
+
+    // every cleanup registered here runs (once) when the store is disposed
+    const cleanups = new Set<() => void>();
+
+    const subscribe = <TSelected>(
+        selector: (state: StoreValues<TState, TDerived, TFamilies>) => TSelected,
+        listener: (next: TSelected, prev: TSelected) => void,
+        options?: SubscribeOptions<TSelected>
+    ) => {
+        const unsubscribe = subscribeToStore(values, selector, listener, options);
+        const cleanup = () => {
+            cleanups.delete(cleanup);
+            unsubscribe();
+        };
+        cleanups.add(cleanup);
+        return cleanup;
+    };
+
+    /**
+     * Writes a partial state into the state signals within a single batch
+     */
+    const setState = (update: Partial<TState> | ((state: TState) => Partial<TState>)) => {
+        const partial = typeof update === "function" ? update(getStateSnapshot()) : update;
+        allowingWrites(() =>
+            batch(() => {
+                for (const key in partial) {
+                    if (key in stateSignals) {
+                        stateSignals[key].value = partial[key] as TState[typeof key];
+                    }
+                }
+            })
+        );
+    };
+
+    const resetState = (keys: (keyof TState)[] = Object.keys(stateSignals)) => {
+        const initial: Partial<TState> = {};
+        for (const key of keys) {
+            initial[key] = config.initialState[key];
+        }
+        setState(initial);
+    };
+
+    let disposed = false;
+    const dispose = () => {
+        disposed = true;
+        for (const cleanup of [...cleanups]) {
+            cleanup();
+        }
+        cleanups.clear();
+        familyCaches.forEach((cache) => cache.clear());
+        transactionLog.clear();
+    };
+
+    // Named effects, started once the store is set up (see below)
+    const effects: Record<string, EffectControls> = {};
+    for (const name in config.effects) {
+        const run = config.effects[name];
+        const isRunning = signal(false);
+        let stop: (() => void) | undefined;
+        const pause = () => {
+            if (stop) {
+                stop();
+                stop = undefined;
+                isRunning.value = false;
+            }
+        };
+        const resume = () => {
+            if (!stop && !disposed) {
+                stop = effect(() => run(stateSignals, actions));
+                isRunning.value = true;
+            }
+        };
+        effects[name] = { pause, resume, isRunning };
+        cleanups.add(pause);
+    }
+
+    const store = {
+        ...stateSignals,
+        ...derived,
+        ...families,
+        actions,
+        status: statuses,
+        transactions: transactionLog.transactions,
+        effects,
+        getStateSnapshot,
+        values,
+        subscribe,
+        setState,
+        resetState,
+        dispose,
+    } as Store<TState, TDerived, TActions, TFamilies>;
 
     // the optional onStoreCreated callback allows middleware to set up side effects/subscriptions
     if (config.onStoreCreated) {
-        config.onStoreCreated(store);
+        const cleanup = config.onStoreCreated(store);
+        if (cleanup) {
+            cleanups.add(cleanup);
+        }
+    }
+
+    for (const name in effects) {
+        effects[name].resume();
     }
 
     return store;
 }
+
+const isProduction = () => {
+    try {
+        // replaced at build time by bundlers; throws where `process` doesn't exist
+        return process.env.NODE_ENV === "production";
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Makes writes to a state signal fail unless `canWrite` returns true
+ * Violations throw in development and only warn in production (the write still happens).
+ */
+function guardWrites<T>(stateSignal: Signal<T>, key: string, canWrite: () => boolean) {
+    const { get, set } = Object.getOwnPropertyDescriptor(Signal.prototype, "value")!;
+    Object.defineProperty(stateSignal, "value", {
+        get() {
+            return get!.call(this);
+        },
+        set(value: T) {
+            if (!canWrite()) {
+                const message = `Cannot write '${key}' outside of an action in strict mode`;
+                if (!isProduction()) {
+                    throw new Error(message);
+                }
+                console.warn(message);
+            }
+            set!.call(this, value);
+        },
+    });
+}
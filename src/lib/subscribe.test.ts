@@ -0,0 +1,96 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "./store";
+
+describe("store.subscribe", () => {
+    let store: any, listener: jest.Mock, unsubscribe: () => void;
+
+    beforeEach(() => {
+        listener = jest.fn();
+        store = createStore({
+            initialState: { sortBy: "name", sortDirection: "asc", products: [1, 2] },
+            derived: { total: (state: any) => state.products.value.length },
+        });
+    });
+
+    describe("when selecting a single key", () => {
+        beforeEach(() => {
+            unsubscribe = store.subscribe((state: any) => state.sortBy, listener);
+        });
+
+        it("should not call the listener on subscribe", () => {
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should call the listener with the next and previous value", () => {
+            store.sortBy.value = "price";
+            expect(listener).toHaveBeenCalledWith("price", "name");
+        });
+
+        it("should ignore changes to keys the selector didn't read", () => {
+            store.sortDirection.value = "desc";
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it("should stop calling the listener once unsubscribed", () => {
+            unsubscribe();
+            store.sortBy.value = "price";
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("when selecting derived values", () => {
+        beforeEach(() => {
+            store.subscribe((state: any) => state.total, listener);
+            store.products.value = [1, 2, 3];
+        });
+
+        it("should call the listener when the derived value changes", () => {
+            expect(listener).toHaveBeenCalledWith(3, 2);
+        });
+    });
+
+    describe("when using a custom equality function", () => {
+        beforeEach(() => {
+            store.subscribe(
+                (state: any) => ({ sortBy: state.sortBy, sortDirection: state.sortDirection }),
+                listener,
+                {
+                    equalityFn: (a: any, b: any) =>
+                        a.sortBy === b.sortBy && a.sortDirection === b.sortDirection,
+                }
+            );
+        });
+
+        it("should only call the listener when the selection is not equal", () => {
+            store.sortBy.value = "name";
+            expect(listener).not.toHaveBeenCalled();
+            store.sortDirection.value = "desc";
+            expect(listener).toHaveBeenCalledWith(
+                { sortBy: "name", sortDirection: "desc" },
+                { sortBy: "name", sortDirection: "asc" }
+            );
+        });
+    });
+
+    describe("when fireImmediately is set", () => {
+        beforeEach(() => {
+            store.subscribe((state: any) => state.sortBy, listener, { fireImmediately: true });
+        });
+
+        it("should call the listener right away with the current value", () => {
+            expect(listener).toHaveBeenCalledWith("name", "name");
+        });
+    });
+
+    describe("when the store is disposed", () => {
+        beforeEach(() => {
+            store.subscribe((state: any) => state.sortBy, listener);
+            store.dispose();
+            store.sortBy.value = "price";
+        });
+
+        it("should stop calling the listener", () => {
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+});
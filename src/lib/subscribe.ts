@@ -0,0 +1,64 @@
+import { effect, untracked } from "@preact/signals-react";
+import { SubscribeOptions } from "./types";
+
+/**
+ * Subscribes a listener to a selected slice of a store
+ *
+ * The selector runs inside an effect, so only the signals it actually reads are tracked.
+ * The listener runs untracked and only when the selected value changed according to
+ * `equalityFn` (Object.is by default).
+ *
+ * @param view Plain-looking view of the store whose getters read the underlying signals
+ * @param selector Picks the value to watch from the view
+ * @param listener Called with the next and previous selected value
+ * @param options Subscription options
+ * @returns A function that unsubscribes the listener
+ */
+export function subscribeToStore<TView, TSelected>(
+    view: TView,
+    selector: (state: TView) => TSelected,
+    listener: (next: TSelected, prev: TSelected) => void,
+    options: SubscribeOptions<TSelected> = {}
+): () => void {
+    const { equalityFn = Object.is, fireImmediately = false } = options;
+
+    let initialized = false;
+    let prev: TSelected;
+
+    return effect(() => {
+        const next = selector(view);
+        if (!initialized) {
+            initialized = true;
+            prev = next;
+            if (fireImmediately) {
+                untracked(() => listener(next, next));
+            }
+            return;
+        }
+        if (equalityFn(prev, next)) {
+            return;
+        }
+        const previous = prev;
+        prev = next;
+        untracked(() => listener(next, previous));
+    });
+}
+
+/**
+ * Equality function comparing arrays or plain objects one level deep
+ * Useful as `equalityFn` for selectors that build a new array or object on every run.
+ *
+ * @example
+ * store.subscribe((state) => state.products.map((p) => p.id), onIdsChanged, { equalityFn: shallowEqual });
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) {
+        return false;
+    }
+    const keysA = Object.keys(a) as (keyof T)[];
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every((key) => Object.is(a[key], b[key]));
+}
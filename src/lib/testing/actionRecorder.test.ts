@@ -0,0 +1,112 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { createStore } from "../store";
+import { beaconMatchers, recordActions } from "./actionRecorder";
+
+expect.extend(beaconMatchers);
+
+describe("recordActions", () => {
+    let store: any, recorder: any;
+
+    beforeEach(() => {
+        store = createStore({
+            initialState: { sortBy: "name", sortDirection: "asc" },
+            actions: {
+                setSortBy: (state: any, sortBy: string) => {
+                    state.sortBy.value = sortBy;
+                },
+                setSortDirection: (state: any, direction: string) => {
+                    state.sortDirection.value = direction;
+                },
+                sortByPriceDesc(this: any) {
+                    this.actions.setSortBy("price");
+                    this.actions.setSortDirection("desc");
+                },
+                fail: () => {
+                    throw new Error("nope");
+                },
+            },
+        });
+        recorder = recordActions(store);
+    });
+
+    it("should record calls with their arguments and results", () => {
+        store.actions.setSortBy("price");
+
+        expect(recorder.calls).toEqual([{ name: "setSortBy", args: ["price"], result: undefined }]);
+        expect(store.sortBy.value).toBe("price");
+    });
+
+    it("should record calls actions make to other actions", () => {
+        store.actions.sortByPriceDesc();
+
+        expect(recorder.calls.map((call: any) => call.name)).toEqual([
+            "sortByPriceDesc",
+            "setSortBy",
+            "setSortDirection",
+        ]);
+    });
+
+    it("should record calls actions make to other actions when the store has middleware", async () => {
+        const after = jest.fn();
+        const store: any = createStore({
+            initialState: { count: 0 },
+            actions: {
+                inc: (state: any) => {
+                    state.count.value++;
+                },
+                async twice(this: any) {
+                    this.actions.inc();
+                    await Promise.resolve();
+                    this.actions.inc();
+                },
+            },
+            actionMiddleware: [{ after }],
+        });
+        const recorder = recordActions(store);
+
+        await store.actions.twice();
+
+        expect(recorder.calls.map((call: any) => call.name)).toEqual(["twice", "inc", "inc"]);
+        expect(after.mock.calls.map(([call]) => [call.name, call.parent?.name])).toEqual([
+            ["inc", "twice"],
+            ["twice", undefined],
+            ["inc", "twice"],
+        ]);
+    });
+
+    it("should record what an action threw", () => {
+        expect(() => store.actions.fail()).toThrow("nope");
+
+        expect(recorder.calls[0].error).toEqual(new Error("nope"));
+    });
+
+    it("should stop recording and restore the actions", () => {
+        recorder.stop();
+        store.actions.setSortBy("price");
+
+        expect(recorder.calls).toEqual([]);
+        expect(store.sortBy.value).toBe("price");
+    });
+
+    describe("toHaveDispatched", () => {
+        beforeEach(() => {
+            store.actions.setSortBy("price");
+        });
+
+        it("should match a call with equal arguments", () => {
+            expect(recorder).toHaveDispatched("setSortBy", "price");
+            expect(recorder).not.toHaveDispatched("setSortBy", "qty");
+        });
+
+        it("should match any call of the action when no arguments are given", () => {
+            expect(recorder).toHaveDispatched("setSortBy");
+            expect(recorder).not.toHaveDispatched("setSortDirection");
+        });
+
+        it("should list the recorded calls when failing", () => {
+            expect(() => expect(recorder).toHaveDispatched("setSortBy", "qty")).toThrow(
+                /Recorded calls:\n {2}setSortBy\("price"\)/
+            );
+        });
+    });
+});
@@ -0,0 +1,118 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * A single recorded action call
+ */
+export interface RecordedAction {
+    name: string;
+    args: unknown[];
+    /**
+     * What the action returned (for async actions, the promise)
+     */
+    result?: unknown;
+    /**
+     * What the action threw, if it did
+     */
+    error?: unknown;
+}
+
+export interface ActionRecorder {
+    /**
+     * The recorded calls, in call order (an action calling other actions comes before them)
+     */
+    readonly calls: RecordedAction[];
+    /**
+     * Forgets the calls recorded so far
+     */
+    clear: () => void;
+    /**
+     * Stops recording and restores the original actions
+     */
+    stop: () => void;
+}
+
+/**
+ * Records every call of a store's actions, including calls actions and effects make to other
+ * actions. Use it with the `toHaveDispatched` matcher (see `beaconMatchers`).
+ *
+ * @example
+ * const recorder = recordActions(store);
+ * fireEvent.change(sortSelect, { target: { value: "price" } });
+ * expect(recorder).toHaveDispatched("setSortBy", "price");
+ *
+ * @param store The store whose actions to record
+ */
+export function recordActions(store: {
+    actions: Record<string, (...args: any[]) => any>;
+}): ActionRecorder {
+    const calls: RecordedAction[] = [];
+    const originals = { ...store.actions };
+
+    for (const name in originals) {
+        store.actions[name] = (...args: any[]) => {
+            const call: RecordedAction = { name, args };
+            calls.push(call);
+            try {
+                call.result = originals[name](...args);
+                return call.result;
+            } catch (error: unknown) {
+                call.error = error;
+                throw error;
+            }
+        };
+    }
+
+    return {
+        calls,
+        clear: () => {
+            calls.length = 0;
+        },
+        stop: () => {
+            Object.assign(store.actions, originals);
+        },
+    };
+}
+
+declare global {
+    // eslint-disable-next-line @typescript-eslint/no-namespace
+    namespace jest {
+        interface Matchers<R> {
+            /**
+             * Checks that the recorder saw a call of the action, with the given arguments if any
+             * (compared with the same equality as `toEqual`)
+             */
+            toHaveDispatched(action: string, ...args: unknown[]): R;
+        }
+    }
+}
+
+/**
+ * Jest matchers for Beacon stores, to register with `expect.extend(beaconMatchers)`
+ */
+export const beaconMatchers = {
+    toHaveDispatched(
+        this: jest.MatcherContext,
+        recorder: ActionRecorder,
+        action: string,
+        ...args: unknown[]
+    ): jest.CustomMatcherResult {
+        const named = recorder.calls.filter((call) => call.name === action);
+        const pass = args.length
+            ? named.some((call) => this.equals(call.args, args))
+            : named.length > 0;
+        const expected = `${action}(${args.map((arg) => this.utils.printExpected(arg)).join(", ")})`;
+        const recorded = recorder.calls.length
+            ? recorder.calls
+                  .map(
+                      ({ name, args }) =>
+                          `  ${name}(${args.map((arg) => this.utils.printReceived(arg)).join(", ")})`
+                  )
+                  .join("\n")
+            : "  (none)";
+        return {
+            pass,
+            message: () =>
+                `expected ${pass ? "no call of" : "a call of"} ${expected}\n\nRecorded calls:\n${recorded}`,
+        };
+    },
+};
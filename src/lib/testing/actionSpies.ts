@@ -0,0 +1,47 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+type StoreWithActions = { actions: Record<string, (...args: any[]) => any> };
+
+/**
+ * Spies on a single action: calls are recorded and still run the action
+ * Restore it with `spy.mockRestore()` (or jest's `restoreMocks` option).
+ *
+ * @example
+ * const setSortBy = spyOnAction(store, "setSortBy");
+ * store.actions.setSortBy("price");
+ * expect(setSortBy).toHaveBeenCalledWith("price");
+ *
+ * @param store The store whose action to spy on
+ * @param name The action name
+ */
+export function spyOnAction<TStore extends StoreWithActions, K extends keyof TStore["actions"]>(
+    store: TStore,
+    name: K
+): jest.SpyInstance<ReturnType<TStore["actions"][K]>, Parameters<TStore["actions"][K]>> {
+    return jest.spyOn(store.actions as TStore["actions"], name as any) as any;
+}
+
+/**
+ * Replaces a single action with a stub, e.g. to keep an async action from hitting the network
+ * The stub doesn't receive the state signals; use `store.setState` to simulate its effect.
+ * Restore the action with `stub.mockRestore()`.
+ *
+ * @example
+ * stubAction(store, "fetchProducts", async () => {
+ *   store.setState({ products: productsAdapter.getInitialState(sampleProducts) });
+ *   return sampleProducts;
+ * });
+ *
+ * @param store The store whose action to stub
+ * @param name The action name
+ * @param implementation Runs instead of the action; by default the stub returns undefined
+ */
+export function stubAction<TStore extends StoreWithActions, K extends keyof TStore["actions"]>(
+    store: TStore,
+    name: K,
+    implementation: (
+        ...args: Parameters<TStore["actions"][K]>
+    ) => ReturnType<TStore["actions"][K]> = () => undefined as ReturnType<TStore["actions"][K]>
+): jest.SpyInstance<ReturnType<TStore["actions"][K]>, Parameters<TStore["actions"][K]>> {
+    return spyOnAction(store, name).mockImplementation(implementation);
+}
@@ -0,0 +1,4 @@
+export * from "./testStore";
+export * from "./actionRecorder";
+export * from "./waitForState";
+export * from "./actionSpies";
@@ -0,0 +1,170 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { defineStore } from "../ssr";
+import { localStoragePlugin } from "../middleware/localStoragePlugin";
+import { createTestStore } from "./testStore";
+import { waitForState } from "./waitForState";
+import { spyOnAction, stubAction } from "./actionSpies";
+
+const counterDefinition = defineStore(() =>
+    localStoragePlugin(
+        {
+            initialState: { count: 0, step: 1 },
+            actions: {
+                increment: (state) => {
+                    state.count.value += state.step.value;
+                },
+                incrementLater: async (state) => {
+                    await Promise.resolve();
+                    state.count.value += state.step.value;
+                },
+            },
+        },
+        { name: "counter" }
+    )
+);
+
+describe("createTestStore", () => {
+    let store: any;
+
+    afterEach(() => {
+        store.dispose();
+    });
+
+    describe("with a store definition", () => {
+        beforeEach(() => {
+            store = createTestStore(counterDefinition, {
+                initialState: { step: 2 },
+                storage: { counter: JSON.stringify({ state: { count: 5, step: 1 }, version: 0 }) },
+            });
+        });
+
+        it("should hydrate from the given storage, with the initial state overrides winning", () => {
+            expect(store.getStateSnapshot()).toEqual({ count: 5, step: 2 });
+        });
+
+        it("should persist to its in-memory storage, leaving localStorage alone", () => {
+            window.localStorage.setItem("counter", "kept");
+            store.actions.increment();
+
+            expect(JSON.parse(store.storage.getItem("counter")).state).toEqual({
+                count: 7,
+                step: 2,
+            });
+            expect(window.localStorage.getItem("counter")).toBe("kept");
+            window.localStorage.clear();
+        });
+    });
+
+    describe("with a store config", () => {
+        beforeEach(() => {
+            store = createTestStore(
+                { initialState: { count: 0, step: 1 } },
+                {
+                    initialState: { count: 3 },
+                }
+            );
+        });
+
+        it("should apply the initial state overrides", () => {
+            expect(store.getStateSnapshot()).toEqual({ count: 3, step: 1 });
+        });
+
+        it("should keep the overrides when resetting", () => {
+            store.setState({ count: 10 });
+            store.resetState();
+
+            expect(store.count.value).toBe(3);
+        });
+    });
+
+    describe("when several test stores are alive", () => {
+        let other: any;
+
+        beforeEach(() => {
+            store = createTestStore(counterDefinition);
+            other = createTestStore(counterDefinition);
+            store.actions.increment();
+        });
+
+        afterEach(() => {
+            other.dispose();
+        });
+
+        it("should give each of them its own storage", () => {
+            expect(JSON.parse(store.storage.getItem("counter")).state.count).toBe(1);
+            expect(JSON.parse(other.storage.getItem("counter")).state.count).toBe(0);
+        });
+    });
+});
+
+describe("waitForState", () => {
+    let store: any;
+
+    beforeEach(() => {
+        store = createTestStore(counterDefinition);
+    });
+
+    afterEach(() => {
+        store.dispose();
+    });
+
+    it("should resolve once the predicate holds", async () => {
+        store.actions.incrementLater();
+
+        await expect(waitForState(store, (state: any) => state.count === 1)).resolves.toEqual({
+            count: 1,
+            step: 1,
+        });
+    });
+
+    it("should resolve right away when the predicate already holds", async () => {
+        await expect(waitForState(store, (state: any) => state.count === 0)).resolves.toEqual({
+            count: 0,
+            step: 1,
+        });
+    });
+
+    it("should reject after the timeout", async () => {
+        await expect(
+            waitForState(store, (state: any) => state.count === 1, { timeout: 10 })
+        ).rejects.toThrow("waitForState timed out after 10ms");
+    });
+});
+
+describe("action spies", () => {
+    let store: any;
+
+    beforeEach(() => {
+        store = createTestStore(counterDefinition);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        store.dispose();
+    });
+
+    it("should record calls and still run the action", () => {
+        const increment = spyOnAction(store, "increment");
+        store.actions.increment();
+
+        expect(increment).toHaveBeenCalledTimes(1);
+        expect(store.count.value).toBe(1);
+    });
+
+    it("should replace the action with a stub", async () => {
+        const incrementLater = stubAction(store, "incrementLater", async () => {
+            store.setState({ count: 42 });
+        });
+        await store.actions.incrementLater();
+
+        expect(incrementLater).toHaveBeenCalled();
+        expect(store.count.value).toBe(42);
+    });
+
+    it("should restore the action", () => {
+        stubAction(store, "increment").mockRestore();
+        store.actions.increment();
+
+        expect(store.count.value).toBe(1);
+    });
+});
@@ -0,0 +1,103 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+    BeaconState,
+    DerivedFamily,
+    EmptyActions,
+    EmptyDerived,
+    EmptyFamilies,
+    Store,
+    StoreConfig,
+} from "../types";
+import { createStore } from "../store";
+import { StoreDefinition } from "../ssr";
+import { memoryStorageAdapter } from "../middleware/storageAdapters";
+import { withStorage } from "../middleware/storageOverride";
+
+export interface TestStoreOptions<TState extends Record<string, any>> {
+    /**
+     * Values replacing the matching `initialState` values
+     * For a store definition they are passed as `serverState`, so they also win over stored state.
+     */
+    initialState?: Partial<TState>;
+    /**
+     * Raw items the store's storage starts with, keyed by storage key
+     * Useful to test how a persisted store hydrates. Persistence plugins pick their storage when
+     * they wrap the config, so pass a store definition building its config (see `defineStore`).
+     */
+    storage?: Record<string, string>;
+}
+
+/**
+ * What `createTestStore` adds to the store
+ */
+export interface WithTestStorage {
+    /**
+     * The in-memory storage the store persists to
+     */
+    storage: ReturnType<typeof memoryStorageAdapter>;
+}
+
+/**
+ * Creates a store for tests, persisting to its own in-memory storage
+ *
+ * Every persistence plugin of a store definition (localStorage, sessionStorage, IndexedDB) reads
+ * and writes that storage instead, so tests neither read nor leak the browser's storage. Dispose
+ * the store after each test.
+ *
+ * Accepts a store config or a store definition (see `defineStore`), so a definition can be
+ * tested with all of its plugins.
+ *
+ * @example
+ * const store = createTestStore(productListStoreDefinition, {
+ *   initialState: { sortBy: "price" },
+ *   storage: { productListStore: JSON.stringify({ state: { sortDirection: "desc" }, version: 1 }) },
+ * });
+ * afterEach(() => store.dispose());
+ *
+ * @param config The store config, or a store definition
+ * @param options Initial state overrides and stored items
+ */
+export function createTestStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any>,
+    TActions extends Record<string, (...args: any[]) => any>,
+    TStore extends { dispose: () => void },
+>(
+    definition: StoreDefinition<TState, TDerived, TActions, TStore>,
+    options?: TestStoreOptions<TState>
+): TStore & WithTestStorage;
+export function createTestStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+>(
+    config: StoreConfig<TState, TDerived, TActions, TFamilies>,
+    options?: TestStoreOptions<TState>
+): Store<TState, TDerived, TActions, TFamilies> & WithTestStorage;
+export function createTestStore<TState extends Record<string, any>>(
+    config: StoreConfig<TState, any, any, any> | StoreDefinition<TState, any, any, any>,
+    options: TestStoreOptions<TState> = {}
+): { dispose: () => void } & WithTestStorage {
+    const { initialState, storage: items = {} } = options;
+    const storage = memoryStorageAdapter(items);
+
+    const store: { dispose: () => void } =
+        "create" in config
+            ? withStorage(
+                  // there are no other tabs to hear from, so cross-tab sync has nothing to listen to
+                  { ...storage, subscribe: () => () => {} },
+                  () => config.create({ serverState: initialState })
+              )
+            : createStore({
+                  ...config,
+                  initialState: { ...config.initialState, ...initialState },
+              });
+
+    if ("storage" in store) {
+        store.dispose();
+        throw new Error("Test store key 'storage' conflicts with an existing store key");
+    }
+
+    return Object.assign(store, { storage });
+}
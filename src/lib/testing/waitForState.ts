@@ -0,0 +1,66 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { BeaconState, DerivedFamily, StoreMethods, StoreValues } from "../types";
+
+export interface WaitForStateOptions {
+    /**
+     * How long to wait before rejecting, in milliseconds
+     * @default 1000
+     */
+    timeout?: number;
+}
+
+/**
+ * Waits until the store's state and derived values satisfy a predicate
+ * Resolves right away if they already do.
+ *
+ * @example
+ * store.actions.fetchProducts();
+ * await waitForState(store, (state) => state.sortedProductIds.length === 3);
+ *
+ * @param store The store to watch
+ * @param predicate Checked against the state and derived values after every change
+ * @param options The timeout
+ * @returns The state snapshot (with derived values) that satisfied the predicate
+ */
+export function waitForState<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any>,
+    TFamilies extends Record<string, DerivedFamily<TState>>,
+>(
+    store: Pick<StoreMethods<TState, TDerived, any, TFamilies>, "subscribe" | "getStateSnapshot">,
+    predicate: (state: StoreValues<TState, TDerived, TFamilies>) => boolean,
+    options: WaitForStateOptions = {}
+): Promise<TState> {
+    const { timeout = 1000 } = options;
+
+    return new Promise((resolve, reject) => {
+        // replaced by the real unsubscribe once subscribed
+        let unsubscribe = () => {};
+        let done = false;
+        const finish = () => {
+            done = true;
+            clearTimeout(timer);
+            unsubscribe();
+        };
+
+        const timer = setTimeout(() => {
+            finish();
+            reject(new Error(`waitForState timed out after ${timeout}ms`));
+        }, timeout);
+
+        unsubscribe = store.subscribe(
+            (state) => predicate(state),
+            (satisfied) => {
+                if (satisfied && !done) {
+                    finish();
+                    resolve(store.getStateSnapshot({ withDerived: true }));
+                }
+            },
+            { fireImmediately: true }
+        );
+        // fireImmediately may already have resolved before subscribe returned
+        if (done) {
+            unsubscribe();
+        }
+    });
+}
@@ -1,3 +1,4 @@
+/* eslint-disable @typescript-eslint/no-empty-object-type */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { ReadonlySignal, Signal } from "@preact/signals-react";
 
@@ -48,27 +49,316 @@ export type StoreActions<TState, TActions extends Record<string, (...args: any[]
     ) => ReturnType<TActions[K]>;
 };
 
+/**
+ * The actions as exposed on the store: bound to the state, called without the state parameter
+ *
+ * @template TActions Record of action functions with their implementation signature
+ */
+export type BoundActions<TActions extends Record<string, (...args: any[]) => any>> = {
+    [K in keyof TActions]: (...args: ActionParameters<TActions[K]>) => ReturnType<TActions[K]>;
+};
+
+/**
+ * Passed to actions as `this`: the rest of the store, as far as an action needs it
+ * (Use a method or `function` rather than an arrow function to access it.)
+ *
+ * @template TState The state object type
+ * @template TDerived Record of derived/computed value functions
+ * @template TActions Record of action functions
+ * @example
+ * actions: {
+ *   addAndSelect(state, product: Product) {
+ *     this.actions.addProduct(product);
+ *     this.actions.setSelectedProductId(product.id);
+ *     return this.derived.selectedProduct.value;
+ *   },
+ * }
+ */
+export interface ActionContext<
+    TState,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+> {
+    /**
+     * The store's actions. Calls made from an action join its batch, and middleware sees them as
+     * made by that action (see `ActionCall.parent`).
+     */
+    actions: BoundActions<TActions>;
+    /**
+     * The store's derived values
+     */
+    derived: { [K in keyof TDerived]: ReadonlySignal<ReturnType<TDerived[K]>> };
+    /**
+     * Same as `store.getStateSnapshot`
+     */
+    getStateSnapshot: (opt?: { withDerived: boolean }) => TState;
+}
+
+/**
+ * A named side effect declared in `config.effects`
+ * It runs reactively: whenever a signal it read changes, it runs again. The cleanup it returns
+ * runs before every re-run, when the effect is paused, and when the store is disposed.
+ *
+ * @template TState The state object type
+ * @template TActions Record of action functions
+ */
+export type StoreEffect<
+    TState,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+> = (state: BeaconState<TState>, actions: BoundActions<TActions>) => void | (() => void);
+
+/**
+ * Controls for a single named effect, exposed as `store.effects.<name>`
+ */
+export interface EffectControls {
+    /**
+     * Stops the effect and runs its cleanup. Does nothing if it is already paused.
+     */
+    pause: () => void;
+    /**
+     * Starts a paused effect again (it runs right away). Does nothing if it is running.
+     */
+    resume: () => void;
+    /**
+     * True while the effect is running (i.e. not paused and the store isn't disposed)
+     */
+    isRunning: ReadonlySignal<boolean>;
+}
+
+/**
+ * Status signals of an async action, exposed as `store.status.<action>`
+ */
+export interface ActionStatus {
+    /**
+     * True while a call is in flight (or queued)
+     */
+    pending: ReadonlySignal<boolean>;
+    /**
+     * The error the last call rejected with, cleared when a new call starts
+     */
+    error: ReadonlySignal<unknown>;
+    /**
+     * When a call last resolved (ms since epoch), or null if none has yet
+     */
+    lastSucceededAt: ReadonlySignal<number | null>;
+}
+
+/**
+ * Where the optimistic changes for a transaction key stand
+ * - `pending`: applied, waiting for the backend
+ * - `failed`: the backend rejected the last one and it was rolled back
+ * - `idle`: neither
+ */
+export type TransactionStatus = "idle" | "pending" | "failed";
+
+/**
+ * A call of an optimistic action (see `optimisticAction`)
+ */
+export interface TransactionInfo {
+    id: number;
+    /**
+     * The action that was called
+     */
+    action: string;
+    /**
+     * What the change is about, e.g. a product id (the action name unless the action sets one)
+     */
+    key: string;
+    args: unknown[];
+    /**
+     * Why the commit failed (failed transactions only)
+     */
+    error?: unknown;
+}
+
+/**
+ * The optimistic transactions of a store, exposed as `store.transactions`
+ */
+export interface Transactions {
+    /**
+     * The transactions waiting for their commit, oldest first
+     */
+    pending: ReadonlySignal<TransactionInfo[]>;
+    /**
+     * The transactions whose commit failed, until cleared or retried (a new transaction with the
+     * same key clears them)
+     */
+    failed: ReadonlySignal<TransactionInfo[]>;
+    /**
+     * The status of the transactions with the given key, as a signal
+     * The signal is cached while a transaction with the key is pending or failed. Components
+     * still holding it after that keep working; a later call creates a new one.
+     *
+     * @example
+     * const status = useSignalValue(store.transactions.statusOf(product.id));
+     * // "pending" while the save is in flight
+     */
+    statusOf: (key: string) => ReadonlySignal<TransactionStatus>;
+    /**
+     * Forgets the failed transactions with the given key, or all of them
+     */
+    clearFailed: (key?: string) => void;
+}
+
+/**
+ * The actions returning a promise, i.e. those worth watching in `store.status`
+ */
+export type AsyncActionKeys<TActions> = {
+    [K in keyof TActions]: TActions[K] extends (...args: any[]) => Promise<any> ? K : never;
+}[keyof TActions];
+
 /**
  * Default type for derived state with no actual derivations
  */
 export type EmptyDerived<TState> = Record<never, (state: BeaconState<TState>) => any>;
 
+/**
+ * A parameterized derived value declared in `config.derivedFamilies`
+ * It receives the state signals followed by its own arguments (e.g. an id).
+ */
+export type DerivedFamily<TState> = (state: BeaconState<TState>, ...args: any[]) => any;
+
+/**
+ * Default type for a store without derived families
+ */
+export type EmptyFamilies<TState> = Record<never, DerivedFamily<TState>>;
+
+/**
+ * The derived families as exposed on the store: called with the family's arguments, each returns
+ * a cached computed signal per argument list
+ *
+ * @template TFamilies Record of derived family functions
+ * @example
+ * // If TFamilies is: { productById: (state, id: string) => Product | undefined }
+ * // FamilySignals<TFamilies> becomes: { productById: (id: string) => ReadonlySignal<Product | undefined> }
+ */
+export type FamilySignals<TFamilies extends Record<string, (...args: any[]) => any>> = {
+    [K in keyof TFamilies]: (
+        ...args: ActionParameters<TFamilies[K]>
+    ) => ReadonlySignal<ReturnType<TFamilies[K]>>;
+};
+
 /**
  * Default type for empty actions
  */
 export type EmptyActions = Record<string, never>;
 
+/**
+ * Describes a single action invocation as it travels through the action middleware pipeline.
+ * `before` and `around` hooks may replace `args` to change what the action receives.
+ *
+ * @template TState The state object type
+ */
+export interface ActionCall<TState> {
+    /**
+     * The name of the action being called (the key in `config.actions`)
+     */
+    name: string;
+
+    /**
+     * The arguments the action will be called with (excluding the state parameter)
+     */
+    args: any[];
+
+    /**
+     * Plain snapshot of the state taken before the action ran
+     */
+    stateBefore: TState;
+
+    /**
+     * The store the action belongs to
+     * Middleware is part of the config, so it is shared by every store created from that config;
+     * plugins use this to keep their bookkeeping per store.
+     */
+    store: Store<TState & Record<string, any>, any, any, any>;
+
+    /**
+     * The call of the action that made this one through `this.actions`, if any
+     * Calls an async action makes after an `await` still point back to it.
+     */
+    parent?: ActionCall<TState>;
+
+    /**
+     * What the caller gets back when a `before` hook vetoes the call, e.g. a promise for a call
+     * the middleware deferred. Undefined unless a hook sets it.
+     */
+    result?: unknown;
+}
+
+/**
+ * The outcome of an action invocation, handed to `after` hooks once the action has finished.
+ *
+ * @template TState The state object type
+ */
+export interface ActionOutcome<TState> extends ActionCall<TState> {
+    /**
+     * Plain snapshot of the state taken after the action ran (or was cancelled)
+     */
+    stateAfter: TState;
+
+    /**
+     * The value returned by the action (or by the middleware that replaced the call)
+     */
+    result?: unknown;
+
+    /**
+     * The error thrown by the action, if any. The error is re-thrown to the caller after
+     * all `after` hooks have run.
+     */
+    error?: unknown;
+
+    /**
+     * True when a `before` hook vetoed the call and the action never ran
+     */
+    cancelled: boolean;
+}
+
+/**
+ * An action middleware intercepts every action call made through `store.actions`.
+ * All hooks are optional and run in the order the middleware were registered.
+ *
+ * @template TState The state object type
+ * @example
+ * const logger: ActionMiddleware<{ count: number }> = {
+ *   before: (call) => console.log(`-> ${call.name}`, call.args),
+ *   after: ({ name, stateBefore, stateAfter }) => console.log(`<- ${name}`, stateBefore, stateAfter),
+ * };
+ */
+export interface ActionMiddleware<TState> {
+    /**
+     * Runs before the action. May replace `call.args`, or return `false` to veto the call
+     * (setting `call.result` to what the caller should get instead).
+     */
+    before?: (call: ActionCall<TState>) => void | false;
+
+    /**
+     * Wraps the action. Call `next()` (optionally with replacement arguments) to continue down
+     * the pipeline; whatever this hook returns becomes the result of the call. Not calling
+     * `next` skips the action entirely.
+     */
+    around?: (call: ActionCall<TState>, next: (args?: any[]) => unknown) => unknown;
+
+    /**
+     * Runs after the action finished, threw, or was vetoed
+     */
+    after?: (outcome: ActionOutcome<TState>) => void;
+}
+
 /**
  * The main configuration interface for creating a store.
  * This defines the complete structure of a store including:
  * - initialState: The initial values for all state properties
  * - derived: Computed values that depend on state
+ * - derivedFamilies: Computed values that also take arguments
  * - actions: Functions that can update the state
+ * - actionMiddleware: Hooks that intercept every action call
+ * - effects: Named side effects tied to the store's lifetime
  * - onStoreCreated: Optional callback that runs after store initialization
  *
  * @template TState The state object type
  * @template TDerived Record of derived/computed value functions
  * @template TActions Record of action functions
+ * @template TFamilies Record of derived family functions
  * @example
  * createStore({
  *   initialState: { count: 0, name: 'User' },
@@ -81,44 +371,77 @@ export interface StoreConfig<
     TState extends Record<string, any>,
     TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
     TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
 > {
     /**
      * Initial state values for the store
+     * These are also the values `store.resetState()` returns to
      */
     initialState: TState;
 
+    /**
+     * State restored from elsewhere (e.g. storage) that the store starts with instead of the
+     * matching `initialState` values. Unlike `initialState`, it is not used by `resetState()`.
+     */
+    hydratedState?: Partial<TState>;
+
     /**
      * Computed values derived from the state
      * These are automatically updated when their dependencies change
      */
     derived?: TDerived;
 
+    /**
+     * Parameterized derived values, e.g. a product by id
+     * Each is exposed as a store method returning a computed signal, cached per argument list
+     * (see `StoreOptions.familyCacheSize`). Arguments are compared by their JSON form.
+     */
+    derivedFamilies?: TFamilies;
+
     /**
      * Actions that can modify the state
-     * These are functions that receive the state signals as their first parameter
+     * These are functions that receive the state signals as their first parameter, and an
+     * `ActionContext` as `this`. Each call runs in a single batch and returns the action's result.
+     */
+    actions?: StoreActions<TState, TActions> & ThisType<ActionContext<TState, TDerived, TActions>>;
+
+    /**
+     * Middleware that intercept every action call, in registration order
+     * Plugins usually append to this list rather than replacing it (see `addActionMiddleware`)
+     */
+    actionMiddleware?: ActionMiddleware<TState>[];
+
+    /**
+     * Named side effects that run for the lifetime of the store
+     * Each one receives the state signals and the actions, and can be paused and resumed by name
+     * through `store.effects`. Effects start once the store (and `onStoreCreated`) is set up.
+     * In strict mode, effects must change state through the actions.
      */
-    actions?: StoreActions<TState, TActions>;
+    effects?: Record<string, StoreEffect<TState, TActions>>;
 
     /**
      * Optional callback that is executed after the store is created
      * This is particularly useful for middleware to set up side effects or subscriptions
+     * Returning a function registers it as cleanup, run by `store.dispose()`.
      *
      * @param store The fully initialized store instance
      */
-    onStoreCreated?: (store: Store<TState, TDerived, TActions>) => void;
+    onStoreCreated?: (store: Store<TState, TDerived, TActions, TFamilies>) => void | (() => void);
 }
 
 /**
  * Represents a complete store instance returned by createStore
  *
- * The Store type is a union of three parts:
+ * The Store type is a union of four parts:
  * 1. State signals - The reactive state properties
  * 2. Derived values - Computed values based on state
- * 3. Action methods - How state is mutated
+ * 3. Derived families - Computed values that also take arguments
+ * 4. Action methods - How state is mutated
  *
  * @template TState The state object type containing all state properties
  * @template TDerived Record of derived/computed value functions
  * @template TActions Record of action functions
+ * @template TFamilies Record of derived family functions
  *
  * @example
  * // For a store created with:
@@ -131,54 +454,248 @@ export interface StoreConfig<
  * // The resulting store type has:
  * // - State signals: store.count (Signal<number>)
  * // - Derived values: store.doubled (ReadonlySignal<number>)
+ * // - Derived families: store.productById(id) (ReadonlySignal<Product>), if declared
  * // - Actions: store.actions.increment(5)
- * // - Utilities: store.getStateSnapshot()
+ * // - Utilities: store.getStateSnapshot(), store.subscribe(selector, listener),
+ * //   store.setState(partial), store.resetState(), store.dispose()
  */
 export type Store<
     TState extends Record<string, any>,
     TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
     TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
 > =
     // 1. State signals - reactive state properties that can be read or updated
     { [K in keyof TState]: Signal<TState[K]> } & {
         // 2. Derived values - computed properties that update automatically when dependencies change
         [K in keyof TDerived]: ReadonlySignal<ReturnType<TDerived[K]>>;
-    } & {
-        // 3. Store methods and actions
-        /**
-         * Collection of actions that can update the store state
-         * These are methods that have been bound to the store's state
-         */
-        actions: {
-            [K in keyof TActions]: (
-                ...args: ActionParameters<TActions[K]>
-            ) => ReturnType<TActions[K]>;
-        };
-
-        /**
-         * Creates a plain object snapshot of the current state values
-         * Useful for debugging, logging, or serialization
-         *
-         * @param opt Options for snapshot generation
-         * @param opt.withDerived When true, includes derived values in the snapshot
-         * @returns A plain object with current state values (not signals)
-         */
-        getStateSnapshot: (opt?: { withDerived: boolean }) => TState;
-    };
-
-/**
- * Type helper for middleware functions to avoid repeating generic parameters
- *
- * @template TState Type of the state object
- * @template TDerived Type of derived computations
- * @template TActions Type of actions
- * @template TOptions Type of middleware-specific options
- * @template TResult Type of the result
- */
-export type MiddlewareFunction<
+    } & FamilySignals<TFamilies> & // 3. Derived families - e.g. store.productById(id)
+        StoreMethods<TState, TDerived, TActions, TFamilies>;
+
+/**
+ * The actions and utility methods every store has, regardless of strict mode
+ *
+ * @template TState The state object type
+ * @template TDerived Record of derived/computed value functions
+ * @template TActions Record of action functions
+ * @template TFamilies Record of derived family functions
+ */
+export type StoreMethods<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+> = {
+    /**
+     * Collection of actions that can update the store state
+     * These are methods that have been bound to the store's state
+     */
+    actions: BoundActions<TActions>;
+
+    /**
+     * Pause/resume controls for the effects declared in `config.effects`, by name
+     *
+     * @example
+     * store.effects.syncToServer.pause();
+     */
+    effects: Record<string, EffectControls>;
+
+    /**
+     * Status signals of the async actions (those returning a promise), by action name
+     *
+     * @example
+     * store.status.fetchProducts.pending.value; // true while products are loading
+     */
+    status: { [K in AsyncActionKeys<TActions>]: ActionStatus };
+
+    /**
+     * The pending and failed calls of the optimistic actions (see `optimisticAction`)
+     */
+    transactions: Transactions;
+
+    /**
+     * Creates a plain object snapshot of the current state values
+     * Useful for debugging, logging, or serialization
+     *
+     * @param opt Options for snapshot generation
+     * @param opt.withDerived When true, includes derived values in the snapshot
+     * @returns A plain object with current state values (not signals)
+     */
+    getStateSnapshot: (opt?: { withDerived: boolean }) => TState;
+
+    /**
+     * Plain view of state and derived values, as `subscribe` selectors see it
+     * Each property reads its signal when accessed, so only the keys read are evaluated.
+     */
+    values: StoreValues<TState, TDerived, TFamilies>;
+
+    /**
+     * Calls the listener whenever the selected value changes
+     * The selector receives a plain view of state and derived values; only the keys it reads
+     * are tracked.
+     *
+     * @example
+     * const unsubscribe = store.subscribe(
+     *   (state) => state.sortBy,
+     *   (sortBy, prevSortBy) => console.log(`sort changed from ${prevSortBy} to ${sortBy}`)
+     * );
+     *
+     * @param selector Picks the value to watch
+     * @param listener Called with the next and previous selected value
+     * @param options Equality function and whether to fire immediately
+     * @returns A function that unsubscribes the listener
+     */
+    subscribe: <TSelected>(
+        selector: (state: StoreValues<TState, TDerived, TFamilies>) => TSelected,
+        listener: (next: TSelected, prev: TSelected) => void,
+        options?: SubscribeOptions<TSelected>
+    ) => () => void;
+
+    /**
+     * Updates several state values at once, outside of any action
+     * All writes happen in a single batch, so derived values and effects only update once.
+     * Keys that aren't state keys are ignored.
+     *
+     * @param update A partial state, or a function receiving the current state and returning one
+     */
+    setState: (update: Partial<TState> | ((state: TState) => Partial<TState>)) => void;
+
+    /**
+     * Returns state values to their `initialState` values (e.g. on logout)
+     *
+     * @param keys The keys to reset. Resets every key when omitted.
+     */
+    resetState: (keys?: (keyof TState)[]) => void;
+
+    /**
+     * Tears the store down: unsubscribes every `subscribe` listener and runs the cleanup
+     * returned by `onStoreCreated`. The state signals keep their last values.
+     */
+    dispose: () => void;
+};
+
+/**
+ * A store whose state signals are read-only, as returned by `createStore(config, { strict: true })`
+ * State can only change through actions (or `setState`), so writing `store.key.value` directly is
+ * a type error.
+ *
+ * @template TState The state object type
+ * @template TDerived Record of derived/computed value functions
+ * @template TActions Record of action functions
+ * @template TFamilies Record of derived family functions
+ */
+export type ReadonlyStore<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+> = { readonly [K in keyof TState]: ReadonlySignal<TState[K]> } & {
+    [K in keyof TDerived]: ReadonlySignal<ReturnType<TDerived[K]>>;
+} & FamilySignals<TFamilies> &
+    StoreMethods<TState, TDerived, TActions, TFamilies>;
+
+/**
+ * Options for `createStore`
+ */
+export interface StoreOptions {
+    /**
+     * Forbids writing state signals outside of a running action (or `setState`)
+     * Such writes throw in development and only warn in production. Async actions can keep
+     * writing after an `await` through the state they were handed; while they are pending,
+     * writes from anywhere else still fail.
+     * @default false
+     */
+    strict?: boolean;
+
+    /**
+     * How many argument lists each derived family keeps a signal cached for
+     * Once exceeded, the least recently used signal is dropped. Components still holding it keep
+     * working; a later call with the same arguments creates a new signal.
+     * @default 500
+     */
+    familyCacheSize?: number;
+}
+
+/**
+ * Plain (non-signal) view of a store's state and derived values, as seen by `store.subscribe`
+ * selectors. Reading a property reads the underlying signal.
+ *
+ * Derived families are functions returning the plain value for the given arguments.
+ *
+ * @template TState The state object type
+ * @template TDerived Record of derived/computed value functions
+ * @template TFamilies Record of derived family functions
+ */
+export type StoreValues<
+    TState extends Record<string, any>,
+    TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+> = TState & { [K in keyof TDerived]: ReturnType<TDerived[K]> } & {
+    [K in keyof TFamilies]: (...args: ActionParameters<TFamilies[K]>) => ReturnType<TFamilies[K]>;
+};
+
+/**
+ * Options for `store.subscribe`
+ *
+ * @template TSelected The type of the selected value
+ */
+export interface SubscribeOptions<TSelected> {
+    /**
+     * Decides whether the selected value changed
+     * @default Object.is
+     */
+    equalityFn?: (a: TSelected, b: TSelected) => boolean;
+
+    /**
+     * Calls the listener right away with the current value (as both next and previous)
+     * @default false
+     */
+    fireImmediately?: boolean;
+}
+
+/**
+ * A store plugin: a named config transform, and/or a store enhancer adding typed members
+ * Plugins are combined with `compose`, which applies them in order.
+ *
+ * @template TState The state object type the plugin works with
+ * @template TExtension The members the plugin adds to the store
+ */
+export interface StorePlugin<
+    TState extends Record<string, any> = any,
+    TExtension extends object = {},
+> {
+    /**
+     * Identifies the plugin in ordering constraints and errors
+     */
+    name: string;
+    /**
+     * Names of plugins that, when composed along with this one, must come before it
+     */
+    after?: string[];
+    /**
+     * Wraps the config, e.g. adding action middleware or hydrated state
+     * A transform may also add store members itself (from `onStoreCreated`); declare them in
+     * `TExtension` so they show up in the store type.
+     */
+    transform?: (config: StoreConfig<TState, any, any, any>) => StoreConfig<TState, any, any, any>;
+    /**
+     * Returns members to add to the store, once it is created
+     */
+    enhance?: (store: Store<TState, any, any, any>) => TExtension;
+}
+
+declare const pluginExtensions: unique symbol;
+
+/**
+ * A config produced by `compose`, carrying the members its plugins add to the store
+ * `createStore` and `defineStore` add them to the store type.
+ */
+export type ComposedStoreConfig<
     TState extends Record<string, any>,
     TDerived extends Record<string, (state: BeaconState<TState>) => any> = EmptyDerived<TState>,
     TActions extends Record<string, (...args: any[]) => any> = EmptyActions,
-    TOptions = any,
-    TResult = StoreConfig<TState, TDerived, TActions>,
-> = (config: StoreConfig<TState, TDerived, TActions>, options: TOptions) => TResult;
+    TFamilies extends Record<string, DerivedFamily<TState>> = EmptyFamilies<TState>,
+    TExtensions extends object = {},
+> = StoreConfig<TState, TDerived, TActions, TFamilies> & {
+    readonly [pluginExtensions]?: TExtensions;
+};
@@ -0,0 +1,33 @@
+import { Signal } from "@preact/signals-react";
+
+// the state signal behind each stand-in
+const originals = new WeakMap<Signal<unknown>, Signal<unknown>>();
+
+/**
+ * Returns a stand-in for a guarded state signal whose writes are always allowed
+ * It reads and writes through the original, so it's tracked like the original.
+ */
+export function writableSignal<T>(
+    stateSignal: Signal<T>,
+    allowingWrites: (write: () => void) => void
+): Signal<T> {
+    const writable = Object.create(stateSignal) as Signal<T>;
+    Object.defineProperty(writable, "value", {
+        get: () => stateSignal.value,
+        set: (value: T) =>
+            allowingWrites(() => {
+                stateSignal.value = value;
+            }),
+    });
+    originals.set(writable, stateSignal);
+    return writable;
+}
+
+/**
+ * Returns the state signal behind a stand-in made by `writableSignal`, or the signal itself
+ * Code keeping data per state signal uses it, so actions in strict stores find the same data as
+ * derived values.
+ */
+export function originalSignal<T>(stateSignal: Signal<T>): Signal<T> {
+    return (originals.get(stateSignal) as Signal<T> | undefined) ?? stateSignal;
+}
@@ -2,9 +2,22 @@ import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { getServerState } from "./lib";
+import { ProductListStoreProvider } from "./store/productListContext";
+import { productListStoreDefinition } from "./store/productListStore";
+
+// picks up the state embedded by a server render, if there was one
+const productListStore = productListStoreDefinition.create({
+    serverState: getServerState("productListStore"),
+});
+
+// tear down persistence/telemetry subscriptions when this module is hot-replaced
+import.meta.hot?.dispose(() => productListStore.dispose());
 
 createRoot(document.getElementById("root")!).render(
     <StrictMode>
-        <App />
+        <ProductListStoreProvider store={productListStore}>
+            <App />
+        </ProductListStoreProvider>
     </StrictMode>
 );
@@ -0,0 +1,18 @@
+import { createStoreContext } from "../lib/react";
+import {
+    ProductListActions,
+    ProductListComputedState,
+    ProductListFamilies,
+    ProductListState,
+} from "./productListStore";
+
+export const {
+    StoreProvider: ProductListStoreProvider,
+    useStore: useProductListStore,
+    useStoreInstance: useProductListStoreInstance,
+} = createStoreContext<
+    ProductListState,
+    ProductListComputedState,
+    ProductListActions,
+    ProductListFamilies
+>();
@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { replaySession } from "../lib";
+import { beaconMatchers, createTestStore, recordActions, waitForState } from "../lib/testing";
+import { productApi } from "../util/productApi";
+import { telemetryClient } from "../util/telemetry";
+import { Product, productListStoreDefinition } from "./productListStore";
+
+jest.mock("../util/telemetry", () => ({
+    telemetryClient: { track: jest.fn(), flush: jest.fn(), dispose: jest.fn() },
+}));
+
+expect.extend(beaconMatchers);
+
+const products: Product[] = [
+    { id: "1", name: "Laptop", price: 999.99, qty: 5 },
+    { id: "2", name: "Mouse", price: 29.99, qty: 50 },
+];
+
+describe("productListStore", () => {
+    let store: any;
+
+    beforeEach(() => {
+        jest.spyOn(productApi, "fetchProducts").mockResolvedValue(products);
+        store = createTestStore(productListStoreDefinition, {
+            storage: {
+                productListStore: JSON.stringify({ state: { sortBy: "price" }, version: 1 }),
+            },
+        });
+    });
+
+    afterEach(() => {
+        store.dispose();
+        jest.restoreAllMocks();
+    });
+
+    it("should restore the persisted sort order", () => {
+        expect(store.sortBy.value).toBe("price");
+    });
+
+    it("should load products sorted, and report how many were loaded", async () => {
+        const loading = store.actions.fetchProducts();
+
+        await waitForState(store, (state) => state.sortedProductIds.length === 2);
+        expect(store.sortedProductIds.value).toEqual(["2", "1"]);
+        await loading;
+        expect(telemetryClient.track).toHaveBeenCalledWith("PRODUCTS_LOADED", { count: 2 });
+    });
+
+    it("should clear the selection once the selected product is gone", async () => {
+        await store.actions.fetchProducts();
+        store.actions.setSelectedProductId("1");
+        const recorder = recordActions(store);
+
+        store.actions.setProducts([products[1]]);
+
+        expect(recorder).toHaveDispatched("setSelectedProductId", null);
+        expect(store.selectedProduct.value).toBeNull();
+    });
+
+    it("should look products and their selection up by id", async () => {
+        await store.actions.fetchProducts();
+        store.actions.setSelectedProductId("2");
+
+        expect(store.productById("1").value).toEqual(products[0]);
+        expect(store.isProductSelected("1").value).toBe(false);
+        expect(store.isProductSelected("2").value).toBe(true);
+    });
+
+    it("should show a saved product right away, and roll it back if the server refuses", async () => {
+        await store.actions.fetchProducts();
+
+        const saving = store.actions.saveProduct({ id: "1", changes: { qty: 4 } });
+        expect(store.productById("1").value.qty).toBe(4);
+        expect(store.transactions.statusOf("1").value).toBe("pending");
+        await saving;
+        expect(store.transactions.statusOf("1").value).toBe("idle");
+
+        await expect(store.actions.saveProduct({ id: "1", changes: { qty: -1 } })).rejects.toThrow(
+            "Quantity can't be negative"
+        );
+        expect(store.productById("1").value.qty).toBe(4);
+        expect(store.transactions.statusOf("1").value).toBe("failed");
+    });
+
+    it("should replay a recorded sort and selection session", async () => {
+        store.session.start();
+        store.actions.setProducts(products);
+        store.actions.setSelectedProductId("2");
+        store.actions.setSortDirection("desc");
+        store.actions.setProducts([products[0]]);
+
+        const replay = replaySession(
+            () => createTestStore(productListStoreDefinition),
+            store.session.exportSession()
+        );
+
+        await expect(replay.done).resolves.toMatchObject({ steps: 4, passed: true });
+        expect(replay.store.selectedProductId.value).toBeNull();
+        replay.store.dispose();
+    });
+
+    it("should only accept state changes made through actions", () => {
+        expect(() => {
+            store.sortBy.value = "qty";
+        }).toThrow("Cannot write 'sortBy' outside of an action in strict mode");
+    });
+});
@@ -1,6 +1,23 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { BeaconState, createStore } from "../lib";
+import {
+    asyncAction,
+    BeaconState,
+    compose,
+    createEntityAdapter,
+    defineStore,
+    EntityState,
+    EntityUpdate,
+    optimisticAction,
+} from "../lib";
+import { devtoolsPlugin } from "../lib/middleware/devtoolsPlugin";
 import { localStoragePlugin } from "../lib/middleware/localStoragePlugin";
+import { chainMigrations } from "../lib/middleware/persistPlugin";
+import { createSessionRecorderMiddleware } from "../lib/middleware/sessionRecorderPlugin";
+import { telemetryPlugin } from "../lib/middleware/telemetryPlugin";
+import { urlSyncPlugin } from "../lib/middleware/urlSyncPlugin";
+import { validationPlugin } from "../lib/middleware/validationPlugin";
+import { productApi } from "../util/productApi";
+import { telemetryClient } from "../util/telemetry";
 
 export interface Product {
     id: string;
@@ -9,8 +26,11 @@ export interface Product {
     qty: number;
 }
 
+// products are normalized, so changing one product only notifies what reads that product
+const productsAdapter = createEntityAdapter<Product, "products">({ key: "products" });
+
 export type ProductListState = {
-    products: Product[];
+    products: EntityState<Product>;
     sortBy: "name" | "price" | "qty";
     sortDirection: "asc" | "desc";
     selectedProductId: string | null;
@@ -18,61 +38,223 @@ export type ProductListState = {
 
 export type ProductListComputedState = {
     sortedProducts: (state: BeaconState<ProductListState>) => Product[];
+    sortedProductIds: (state: BeaconState<ProductListState>) => string[];
     selectedProduct: (state: BeaconState<ProductListState>) => Product | null;
 };
 
+export type ProductListFamilies = {
+    productById: (state: BeaconState<ProductListState>, id: string) => Product | undefined;
+    isProductSelected: (state: BeaconState<ProductListState>, id: string) => boolean;
+};
+
+const compareProducts = (state: BeaconState<ProductListState>) => {
+    const sortByField = state.sortBy.value;
+    const direction = state.sortDirection.value === "asc" ? 1 : -1;
+    return (a: Product, b: Product) => {
+        if (sortByField === "name") {
+            return direction * a[sortByField].localeCompare(b[sortByField]);
+        }
+        return direction * (a[sortByField] - b[sortByField]);
+    };
+};
+
+const isProduct = (value: any): value is Product =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.price === "number" &&
+    typeof value.qty === "number";
+
 export type ProductListActions = {
     setProducts: (state: BeaconState<ProductListState>, products: Product[]) => void;
+    fetchProducts: (state: BeaconState<ProductListState>) => Promise<Product[]>;
+    updateProduct: (state: BeaconState<ProductListState>, update: EntityUpdate<Product>) => void;
+    saveProduct: (
+        state: BeaconState<ProductListState>,
+        update: EntityUpdate<Product>
+    ) => Promise<Product>;
     setSortBy: (state: BeaconState<ProductListState>, sortBy: "name" | "price" | "qty") => void;
     setSortDirection: (state: BeaconState<ProductListState>, sortDirection: "asc" | "desc") => void;
-    setSelectedProductId: (state: BeaconState<ProductListState>, id: string) => void;
+    setSelectedProductId: (state: BeaconState<ProductListState>, id: string | null) => void;
 };
 
-export const productListStore = createStore(
-    localStoragePlugin<ProductListState, ProductListComputedState, ProductListActions>(
-        {
-            initialState: {
-                products: [],
-                sortBy: "name",
-                sortDirection: "asc",
-                selectedProductId: null,
-            },
-            derived: {
-                sortedProducts: (state) => {
-                    const sorted = [...state.products.value];
-                    sorted.sort((a, b) => {
-                        const sortByField = state.sortBy.value;
-                        const direction = state.sortDirection.value === "asc" ? 1 : -1;
-                        if (sortByField === "name") {
-                            return direction * a[sortByField].localeCompare(b[sortByField]);
+// QA attaches `store.session.exportSession()` to sort/selection bug reports, see `replaySession`
+const withSessionRecorder = compose(
+    createSessionRecorderMiddleware<ProductListState>({ name: "productListStore" })
+);
+
+// a definition rather than an instance, so the server can create a fresh store per request
+export const productListStoreDefinition = defineStore(
+    () =>
+        withSessionRecorder(
+            telemetryPlugin(
+                devtoolsPlugin(
+                    validationPlugin(
+                        urlSyncPlugin(
+                            localStoragePlugin<
+                                ProductListState,
+                                ProductListComputedState,
+                                ProductListActions,
+                                ProductListFamilies
+                            >(
+                                {
+                                    initialState: {
+                                        products: productsAdapter.getInitialState(),
+                                        sortBy: "name",
+                                        sortDirection: "asc",
+                                        selectedProductId: null,
+                                    },
+                                    derived: {
+                                        sortedProducts: (state) =>
+                                            productsAdapter.derived
+                                                .selectAll(state)
+                                                .sort(compareProducts(state)),
+                                        sortedProductIds: (state) =>
+                                            productsAdapter.derived
+                                                .selectAll(state)
+                                                .sort(compareProducts(state))
+                                                .map((product) => product.id),
+                                        selectedProduct: (state) => {
+                                            return state.selectedProductId.value
+                                                ? (productsAdapter.selectEntity(
+                                                      state,
+                                                      state.selectedProductId.value
+                                                  ).value ?? null)
+                                                : null;
+                                        },
+                                    },
+                                    // one signal per product, so a list item only re-renders for its own product
+                                    derivedFamilies: {
+                                        productById: (state, id) =>
+                                            productsAdapter.selectEntity(state, id).value,
+                                        isProductSelected: (state, id) =>
+                                            state.selectedProductId.value === id,
+                                    },
+                                    actions: {
+                                        setProducts: productsAdapter.actions.setAll,
+                                        // a newer fetch aborts the older one, so stale results never land
+                                        fetchProducts: asyncAction(
+                                            async (state, { signal }) => {
+                                                const products =
+                                                    await productApi.fetchProducts(signal);
+                                                productsAdapter.actions.setAll(state, products);
+                                                return products;
+                                            },
+                                            { policy: "takeLatest" }
+                                        ),
+                                        updateProduct: productsAdapter.actions.updateOne,
+                                        // shown right away, rolled back if the server refuses it
+                                        saveProduct: optimisticAction({
+                                            apply: productsAdapter.actions.updateOne,
+                                            commit: (_state, update) =>
+                                                productApi.saveProduct(update),
+                                            key: (update) => String(update.id),
+                                        }),
+                                        setSortBy: (state, sortBy) => {
+                                            state.sortBy.value = sortBy;
+                                        },
+                                        setSortDirection: (state, sortDirection) => {
+                                            state.sortDirection.value = sortDirection;
+                                        },
+                                        setSelectedProductId: (state, id) => {
+                                            state.selectedProductId.value = id;
+                                        },
+                                    },
+                                    effects: {
+                                        // deselect a product once it's gone (e.g. after loading new products)
+                                        clearMissingSelection: (state, actions) => {
+                                            const id = state.selectedProductId.value;
+                                            if (
+                                                id !== null &&
+                                                !(id in state.products.value.entities)
+                                            ) {
+                                                actions.setSelectedProductId(null);
+                                            }
+                                        },
+                                    },
+                                },
+                                {
+                                    name: "productListStore",
+                                    merge: true,
+                                    exclude: ["selectedProductId"],
+                                    debounce: 250,
+                                    sync: { conflict: "merge" },
+                                    version: 1,
+                                    migrate: chainMigrations({
+                                        // products used to be stored as a plain array
+                                        1: (state) => ({
+                                            ...state,
+                                            products: productsAdapter.getInitialState(
+                                                state.products ?? []
+                                            ),
+                                        }),
+                                    }),
+                                }
+                            ),
+                            {
+                                // shared and bookmarked links open the same view; going back deselects
+                                keys: {
+                                    sortBy: { param: "sort" },
+                                    sortDirection: { param: "dir" },
+                                    selectedProductId: { param: "product", history: "push" },
+                                },
+                            }
+                        ),
+                        {
+                            // stored state and links may be stale or tampered with, drop bad values rather than crash
+                            validators: {
+                                products: (value: any) =>
+                                    Array.isArray(value?.ids) &&
+                                    value.ids.every((id: string) =>
+                                        isProduct(value.entities?.[id])
+                                    ),
+                                sortBy: (value) =>
+                                    value === "name" || value === "price" || value === "qty",
+                                sortDirection: (value) => value === "asc" || value === "desc",
+                                selectedProductId: (value) =>
+                                    value === null || typeof value === "string",
+                            },
+                            mode: "fallback",
                         }
-                        return direction * (a[sortByField] - b[sortByField]);
-                    });
-                    return sorted;
-                },
-                selectedProduct: (state) => {
-                    return state.selectedProductId.value
-                        ? state.products.value.find(
-                              (p: Product) => p.id === state.selectedProductId.value
-                          ) || null
-                        : null;
-                },
-            },
-            actions: {
-                setProducts: (state, products) => {
-                    state.products.value = products;
-                },
-                setSortBy: (state, sortBy) => {
-                    state.sortBy.value = sortBy;
-                },
-                setSortDirection: (state, sortDirection) => {
-                    state.sortDirection.value = sortDirection;
-                },
-                setSelectedProductId: (state, id) => {
-                    state.selectedProductId.value = id;
-                },
-            },
-        },
-        { name: "productListStore", merge: true }
-    )
+                    ),
+                    { name: "productListStore" }
+                ),
+                {
+                    client: telemetryClient,
+                    actions: {
+                        fetchProducts: {
+                            event: "PRODUCTS_LOADED",
+                            payload: ({ result }) => ({ count: (result as Product[]).length }),
+                        },
+                        setSelectedProductId: {
+                            event: "PRODUCT_SELECTED",
+                            payload: ({ args: [id], stateBefore }) => ({
+                                id,
+                                prevId: stateBefore.selectedProductId,
+                            }),
+                        },
+                    },
+                    transitions: [
+                        {
+                            event: "SORT_CHANGED",
+                            select: (state) => ({
+                                sortBy: state.sortBy,
+                                sortDirection: state.sortDirection,
+                            }),
+                            equalityFn: (a, b) =>
+                                a.sortBy === b.sortBy && a.sortDirection === b.sortDirection,
+                            payload: (next, prev) => ({
+                                sortBy: next.sortBy,
+                                sortDirection: next.sortDirection,
+                                prevSortBy: prev.sortBy,
+                                prevSortDirection: prev.sortDirection,
+                            }),
+                        },
+                    ],
+                }
+            )
+        ),
+    // components can only change the store through its actions
+    { strict: true }
 );
@@ -0,0 +1,43 @@
+import { EntityUpdate } from "../lib";
+import { Product } from "../store/productListStore";
+
+const sampleProducts: Product[] = [
+    { id: "1", name: "Laptop", price: 999.99, qty: 5 },
+    { id: "2", name: "Mouse", price: 29.99, qty: 50 },
+    { id: "3", name: "Keyboard", price: 59.99, qty: 20 },
+];
+
+const serverProducts = new Map(sampleProducts.map((product) => [product.id, product]));
+
+// Mock product API, responds after a short delay
+export const productApi = {
+    fetchProducts: (signal?: AbortSignal) =>
+        new Promise<Product[]>((resolve, reject) => {
+            const timeout = setTimeout(() => resolve(sampleProducts), 500);
+            signal?.addEventListener(
+                "abort",
+                () => {
+                    clearTimeout(timeout);
+                    reject(signal.reason);
+                },
+                { once: true }
+            );
+        }),
+
+    // keeps its own copy of the products, like a real backend would
+    saveProduct: ({ id, changes }: EntityUpdate<Product>) =>
+        new Promise<Product>((resolve, reject) => {
+            setTimeout(() => {
+                const product = serverProducts.get(String(id));
+                if (!product) {
+                    reject(new Error(`Product '${id}' not found`));
+                } else if (changes.qty !== undefined && changes.qty < 0) {
+                    reject(new Error("Quantity can't be negative"));
+                } else {
+                    const saved = { ...product, ...changes };
+                    serverProducts.set(product.id, saved);
+                    resolve(saved);
+                }
+            }, 300);
+        }),
+};
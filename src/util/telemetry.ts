@@ -1,35 +1,17 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { effect } from "@preact/signals-react";
-import { productListStore } from "../store/productListStore";
+import { createTelemetryClient, localStorageAdapter } from "../lib";
 
 // Mock telemetry API
 const telemetryApi = {
-    sendEvent: (eventName: string, data: any) => {
-        console.log(`Telemetry event: ${eventName}`, data);
+    sendEvents: (events: any[]) => {
+        for (const { name, payload } of events) {
+            console.log(`Telemetry event: ${name}`, payload);
+        }
     },
 };
 
-export function initializeTelemetry() {
-    let prevSortBy = productListStore.sortBy.value;
-    let prevSortDirection = productListStore.sortDirection.value;
-
-    const dispose = effect(() => {
-        const sortBy = productListStore.sortBy.value;
-        const sortDirection = productListStore.sortDirection.value;
-
-        // Only send event if something changed
-        if (sortBy !== prevSortBy || sortDirection !== prevSortDirection) {
-            telemetryApi.sendEvent("SORT_CHANGED", {
-                sortBy,
-                sortDirection,
-                prevSortBy,
-                prevSortDirection,
-            });
-            prevSortBy = sortBy;
-            prevSortDirection = sortDirection;
-        }
-    });
-
-    // Return cleanup function
-    return dispose;
-}
+// Shared by every store that declares telemetry events (see telemetryPlugin)
+export const telemetryClient = createTelemetryClient({
+    transport: { send: telemetryApi.sendEvents },
+    storage: localStorageAdapter(),
+});